@@ -0,0 +1,52 @@
+import { VN_OFFSET_MS } from "./cron.ts";
+
+// Spending Budgets - spend is the sum of successful orders since the start of the day/week/month (Vietnam time)
+export type BudgetPeriod = "daily" | "weekly" | "monthly";
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ["daily", "weekly", "monthly"];
+
+export interface BudgetStatus {
+  period: BudgetPeriod;
+  // Period start as stored in orders.created_at
+  since: string;
+  // VND, 0 = unlimited
+  limit: number;
+  spent: number;
+  remaining: number;
+}
+
+// Start of the current period as a UTC "YYYY-MM-DD HH:MM:SS" string, comparable with orders.created_at
+export function getPeriodStart(period: BudgetPeriod, now = Date.now()) {
+  const vn = new Date(now + VN_OFFSET_MS);
+  let start = Date.UTC(vn.getUTCFullYear(), vn.getUTCMonth(), vn.getUTCDate());
+  if (period === "weekly") {
+    const isoDay = vn.getUTCDay() === 0 ? 7 : vn.getUTCDay();
+    start -= (isoDay - 1) * 24 * 60 * 60 * 1000;
+  } else if (period === "monthly") {
+    start = Date.UTC(vn.getUTCFullYear(), vn.getUTCMonth(), 1);
+  }
+  return new Date(start - VN_OFFSET_MS).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+// How many items fit in every budget at the given unit price, after the spend other in-flight auto-buys
+// have reserved; the tightest cap wins. An unknown price (0) can't be checked against a cap, so any set
+// budget blocks the buy.
+export function budgetAllowance(statuses: BudgetStatus[], reserved: number, quantity: number, unitPrice: number) {
+  const unknownPrice = !(unitPrice > 0);
+  let allowed = quantity;
+  let blockedBy: BudgetStatus | null = null;
+  for (const status of statuses) {
+    if (status.limit <= 0) continue;
+    if (unknownPrice) {
+      allowed = 0;
+      blockedBy = status;
+      break;
+    }
+    const fits = Math.floor(Math.max(0, status.remaining - reserved) / unitPrice);
+    if (fits < allowed) {
+      allowed = fits;
+      blockedBy = status;
+    }
+  }
+  return { allowed, blockedBy, unknownPrice };
+}
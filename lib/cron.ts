@@ -0,0 +1,148 @@
+// Auto-buy Schedules - standard 5-field cron (minute hour day month weekday), evaluated in Vietnam time
+export const VN_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+export function normalizeTime(time: string) {
+  const [h, m] = time.split(':');
+  return `${h.padStart(2, '0')}:${m.padStart(2, '0')}`;
+}
+
+interface CronSpec {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  dayRestricted: boolean;
+  weekdayRestricted: boolean;
+}
+
+const CRON_FIELD_RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+export function parseCronField(field: string, min: number, max: number) {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) return null;
+    const from = match[1] === '*' ? min : parseInt(match[2]);
+    const to = match[1] === '*' ? max : (match[3] !== undefined ? parseInt(match[3]) : (match[4] ? max : from));
+    const step = match[4] ? parseInt(match[4]) : 1;
+    if (from < min || to > max || from > to || step < 1) return null;
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+  return values;
+}
+
+export function parseCron(expr: string): CronSpec | null {
+  const fields = expr.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+  const sets = fields.map((field, i) => parseCronField(field, CRON_FIELD_RANGES[i][0], CRON_FIELD_RANGES[i][1]));
+  if (sets.some(set => !set)) return null;
+  const weekdays = sets[4]!;
+  // Both 0 and 7 mean Sunday
+  if (weekdays.has(7)) weekdays.add(0);
+  return {
+    minutes: sets[0]!,
+    hours: sets[1]!,
+    days: sets[2]!,
+    months: sets[3]!,
+    weekdays,
+    dayRestricted: fields[2] !== '*',
+    weekdayRestricted: fields[4] !== '*'
+  };
+}
+
+// First matching minute strictly after `after`, or null if there is none within ~4 years
+export function nextCronRun(expr: string, after = Date.now()) {
+  const spec = parseCron(expr);
+  if (!spec) return null;
+
+  const MINUTE = 60 * 1000;
+  let t = (Math.floor((after + VN_OFFSET_MS) / MINUTE) + 1) * MINUTE;
+  const limit = t + 4 * 366 * 24 * 60 * MINUTE;
+  while (t < limit) {
+    const d = new Date(t);
+    if (!spec.months.has(d.getUTCMonth() + 1)) {
+      t = Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1);
+      continue;
+    }
+    // Like cron: when both day-of-month and weekday are restricted, either one matching is enough
+    const dayMatch = spec.days.has(d.getUTCDate());
+    const weekdayMatch = spec.weekdays.has(d.getUTCDay());
+    const dateMatch = spec.dayRestricted && spec.weekdayRestricted
+      ? dayMatch || weekdayMatch
+      : (!spec.dayRestricted || dayMatch) && (!spec.weekdayRestricted || weekdayMatch);
+    if (!dateMatch) {
+      t = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1);
+      continue;
+    }
+    if (!spec.hours.has(d.getUTCHours())) {
+      t = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), d.getUTCHours() + 1);
+      continue;
+    }
+    if (!spec.minutes.has(d.getUTCMinutes())) {
+      t += MINUTE;
+      continue;
+    }
+    return t - VN_OFFSET_MS;
+  }
+  return null;
+}
+
+// When a run started at `startedAt` turns auto-buy off again for until=HH:mm: the first such time after the start
+export function scheduleEndAt(endTime: string, startedAt: number) {
+  const [h, m] = endTime.split(':').map(Number);
+  return nextCronRun(`${m} ${h} * * *`, startedAt);
+}
+
+export interface ScheduleSpec {
+  cronExpr: string;
+  recurring: boolean;
+  endTime: string | null;
+  amount: number;
+  limit: number;
+  nextRun: number;
+}
+
+// Parses the /schedule arguments after the monitor ID: <HH:mm | cron> [amount] [limit] [daily | days=1-5] [until=HH:mm]
+export function parseScheduleArgs(time: string, args: string[], now = Date.now()): { spec?: ScheduleSpec; error?: string } {
+  const positional = args.filter(part => !part.includes('=') && part !== 'daily');
+  const options = args.filter(part => part.includes('=') || part === 'daily');
+
+  let cronExpr: string;
+  let recurring = false;
+  let endTime: string | null = null;
+  const timeMatch = time.match(/^(([0-1]?[0-9]|2[0-3]):[0-5][0-9])$/);
+  if (timeMatch) {
+    const [h, m] = normalizeTime(time).split(':').map(Number);
+    cronExpr = `${m} ${h} * * *`;
+  } else if (parseCron(time)) {
+    cronExpr = time.trim().split(/\s+/).join(' ');
+    recurring = true;
+  } else {
+    return { error: "Định dạng giờ không hợp lệ. Vui lòng nhập theo định dạng HH:mm (VD: 08:30, 15:45) hoặc biểu thức cron trong ngoặc kép (VD: \"30 15 * * 1-5\")" };
+  }
+
+  for (const option of options) {
+    let match;
+    if (option === 'daily') {
+      recurring = true;
+    } else if (timeMatch && (match = option.match(/^days=([1-7](?:[-,][1-7])*)$/i))) {
+      // Same 1=T2 ... 7=CN numbering as /rules; cron uses 7 for Sunday too
+      const cronParts = cronExpr.split(' ');
+      cronParts[4] = match[1];
+      cronExpr = cronParts.join(' ');
+      recurring = true;
+    } else if ((match = option.match(/^until=(([0-1]?[0-9]|2[0-3]):[0-5][0-9])$/i))) {
+      endTime = normalizeTime(match[1]);
+    } else {
+      return { error: `Tuỳ chọn không hợp lệ: ${option}` };
+    }
+  }
+
+  const nextRun = nextCronRun(cronExpr, now);
+  if (!nextRun) return { error: "Biểu thức cron không bao giờ khớp. Vui lòng kiểm tra lại." };
+
+  return {
+    spec: { cronExpr, recurring, endTime, amount: parseInt(positional[0]) || 1, limit: parseInt(positional[1]) || 0, nextRun }
+  };
+}
@@ -0,0 +1,93 @@
+import { normalizeSearchText } from "./search.ts";
+
+// Purchase Executor - a contested restock rejects the whole quantity, so step down (halving, or to the stock the shop reports) instead of losing the batch
+export type PurchaseFailureReason = "balance" | "stock" | "quantity" | "error" | "other";
+
+export const PURCHASE_MAX_ATTEMPTS = 6;
+export const PURCHASE_RETRY_DELAY_MS = 300;
+
+// The fields of a BResource.php response the executor reads
+export interface PurchaseResponse {
+  status?: string;
+  message?: string;
+}
+
+export interface PurchaseFailure<R extends PurchaseResponse = PurchaseResponse> {
+  reason: PurchaseFailureReason;
+  message: string;
+  // Stock left according to the shop's message, e.g. "Số lượng trong kho không đủ (còn 7)"
+  remaining?: number;
+  response?: R;
+}
+
+export interface PurchaseOutcome<R extends PurchaseResponse = PurchaseResponse> {
+  requested: number;
+  bought: number;
+  attempts: number;
+  orderIds: number[];
+  accounts: string[];
+  // Why the executor stopped short of the requested quantity
+  failure?: PurchaseFailure<R>;
+}
+
+// The shop call and the order ledger, supplied by the caller
+export interface PurchaseSteps<R extends PurchaseResponse> {
+  // One BResource.php call; throws when the request itself failed
+  purchase(quantity: number): Promise<R>;
+  // Stores the attempt as an order and returns its ID
+  record(quantity: number, result: { response: R } | { error: string }): number | null;
+  // Account text delivered by a successful response
+  accounts(response: R): string;
+  retryDelayMs?: number;
+}
+
+export function classifyPurchaseFailure(message: string): PurchaseFailure {
+  const text = normalizeSearchText(message);
+  const left = text.match(/con(?: lai)?:?\s*(\d+)/);
+  const remaining = left ? parseInt(left[1]) : undefined;
+  if (/so du|khong du tien|balance/.test(text)) return { reason: "balance", message: "Số dư không đủ" };
+  if (remaining !== undefined || /het hang|trong kho|out of stock|not enough|stock/.test(text)) return { reason: "stock", message, remaining };
+  if (/so luong|toi da|quantity|amount/.test(text)) return { reason: "quantity", message };
+  return { reason: "other", message };
+}
+
+// Every shop call is recorded as its own order; the caller reports the combined result
+export async function runPurchase<R extends PurchaseResponse>(requested: number, steps: PurchaseSteps<R>): Promise<PurchaseOutcome<R>> {
+  const outcome: PurchaseOutcome<R> = { requested, bought: 0, attempts: 0, orderIds: [], accounts: [] };
+  const retryDelayMs = steps.retryDelayMs ?? PURCHASE_RETRY_DELAY_MS;
+  let quantity = requested;
+
+  while (quantity > 0 && outcome.attempts < PURCHASE_MAX_ATTEMPTS) {
+    if (outcome.attempts > 0) await new Promise(resolve => setTimeout(resolve, retryDelayMs));
+    outcome.attempts++;
+
+    let response: R;
+    try {
+      response = await steps.purchase(quantity);
+    } catch (error: any) {
+      // The shop may have charged before the connection dropped, so this is never retried
+      const detail = error.response?.data ? JSON.stringify(error.response.data) : error.message;
+      steps.record(quantity, { error: detail });
+      outcome.failure = { reason: "error", message: detail };
+      break;
+    }
+
+    const orderId = steps.record(quantity, { response });
+    if (response.status === "success") {
+      outcome.bought += quantity;
+      if (orderId) outcome.orderIds.push(orderId);
+      outcome.accounts.push(steps.accounts(response));
+      outcome.failure = undefined;
+      // Keep taking what is left of the request at the size that just worked
+      quantity = Math.min(quantity, requested - outcome.bought);
+      continue;
+    }
+
+    outcome.failure = { ...classifyPurchaseFailure(response.message || "Lỗi không xác định"), response };
+    if (outcome.failure.reason !== "stock" && outcome.failure.reason !== "quantity") break;
+    const next = outcome.failure.remaining ?? Math.floor(quantity / 2);
+    quantity = Math.min(next, quantity - 1, requested - outcome.bought);
+  }
+
+  return outcome;
+}
@@ -0,0 +1,97 @@
+// Catalog search - accent-insensitive ("tai khoan" finds "Tài khoản"), partial words and one-letter typos
+export interface SearchResult {
+  id: string;
+  name: string;
+  category: string;
+  categoryIndex: number;
+  price: string;
+  amount: number;
+  score: number;
+}
+
+export function normalizeSearchText(text: any) {
+  return String(text ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Levenshtein distance, stopping early once it exceeds `max`
+export function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, curr[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+// 3 = whole word, 2 = word prefix, 1 = typo or substring, 0 = no match
+export function matchToken(token: string, words: string[]) {
+  let best = 0;
+  for (const word of words) {
+    if (word === token) return 3;
+    if (word.startsWith(token)) best = Math.max(best, 2);
+    else if (word.includes(token) || (token.length >= 4 && editDistance(token, word, 1) <= 1)) best = Math.max(best, 1);
+  }
+  return best;
+}
+
+export function searchCatalog(categories: any[], query: string, limit = 10): SearchResult[] {
+  const normalizedQuery = normalizeSearchText(query);
+  const tokens = normalizedQuery.split(" ").filter(Boolean);
+  if (tokens.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  categories.forEach((cat, categoryIndex) => {
+    const catWords = normalizeSearchText(cat.name).split(" ");
+    for (const product of cat.accounts || []) {
+      const name = normalizeSearchText(product.name);
+      const nameWords = name.split(" ");
+      let score = 0;
+      let matchedAll = true;
+
+      for (const token of tokens) {
+        const inName = matchToken(token, nameWords);
+        const inCategory = matchToken(token, catWords);
+        if (inName === 0 && inCategory === 0 && String(product.id) !== token) {
+          matchedAll = false;
+          break;
+        }
+        // Name matches count more than matches that only come from the category
+        score += Math.max(inName * 10, inCategory * 4, String(product.id) === token ? 30 : 0);
+      }
+      if (!matchedAll) continue;
+
+      if (name === normalizedQuery) score += 50;
+      else if (name.startsWith(normalizedQuery)) score += 25;
+      else if (name.includes(normalizedQuery)) score += 15;
+      const amount = parseInt(product.amount) || 0;
+      // In-stock products first among equals
+      if (amount > 0) score += 1;
+
+      results.push({
+        id: String(product.id),
+        name: product.name || `Sản phẩm ${product.id}`,
+        category: cat.name || `Category ${cat.id}`,
+        categoryIndex,
+        price: product.price || "N/A",
+        amount,
+        score
+      });
+    }
+  });
+
+  return results.sort((a, b) => b.score - a.score || b.amount - a.amount).slice(0, limit);
+}
@@ -1,12 +1,21 @@
 import express from "express";
 import { createServer as createViteServer } from "vite";
-import { Telegraf } from "telegraf";
+import { Telegraf, Context, Telegram, TelegramError } from "telegraf";
+import type { Opts } from "telegraf/types";
 import axios from "axios";
 import https from "https";
 import cron from "node-cron";
 import Database from "better-sqlite3";
+import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import zlib from "zlib";
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import { normalizeTime, nextCronRun, scheduleEndAt, parseScheduleArgs, type ScheduleSpec } from "./lib/cron.ts";
+import { normalizeSearchText, matchToken, searchCatalog } from "./lib/search.ts";
+import { classifyPurchaseFailure, runPurchase } from "./lib/purchase.ts";
+import { BUDGET_PERIODS, getPeriodStart, budgetAllowance, type BudgetPeriod, type BudgetStatus } from "./lib/budget.ts";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -17,34 +26,430 @@ const axiosInstance = axios.create({ httpsAgent });
 
 const db = new Database("bot_data.db");
 
-// Simple Memory Logging
-let logBuffer: string[] = [];
-const MAX_LOGS = 20;
-const lastAzeemMessageIds = new Map<string, number>();
+// Last report message per chat and group, deleted when a newer report is sent
+const lastGroupMessageIds = new Map<string, number>();
 let lastScanTime: string = "Chưa chạy";
-let lastAzeemReportTime: string = "Chưa chạy";
+let lastGroupReportTime: string = "Chưa chạy";
+
+// Structured Logging - every record carries a level and category and is kept in the logs table for LOG_RETENTION_DAYS
+type LogLevel = "info" | "warn" | "error";
+type LogCategory = "scan" | "buy" | "auth" | "monitor" | "telegram" | "system";
+
+const LOG_LEVELS: LogLevel[] = ["info", "warn", "error"];
+const LOG_CATEGORIES: LogCategory[] = ["scan", "buy", "auth", "monitor", "telegram", "system"];
+const LOG_LEVEL_ICONS: { [key in LogLevel]: string } = { info: "", warn: "⚠️ ", error: "❌ " };
+const LOG_RETENTION_DAYS = Math.max(1, parseInt(process.env.LOG_RETENTION_DAYS || "") || 30);
+// Hard cap on the table so a noisy failure cannot grow the database without bound
+const LOG_MAX_ROWS = Math.max(1000, parseInt(process.env.LOG_MAX_ROWS || "") || 50000);
+const MAX_LOGS = 100;
+// The same error (e.g. the shop being down during the 2s scan) is persisted at most once a minute
+const LOG_ERROR_DEDUPE_MS = 60 * 1000;
+const lastErrorLogged = new Map<string, number>();
+
+interface LogMeta {
+  level?: LogLevel;
+  category?: LogCategory;
+  productId?: string | number | null;
+  context?: Record<string, unknown>;
+}
 
-function log(message: string, userId?: string) {
-  const timestamp = new Date().toLocaleTimeString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' });
-  const formatted = `[${timestamp}] ${message}`;
-  console.log(formatted);
-  
-  // Always add to global buffer for admin/console visibility
-  logBuffer.push(formatted);
-  if (logBuffer.length > MAX_LOGS) {
-    logBuffer.shift();
+function logTimestamp() {
+  return new Date().toLocaleTimeString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' });
+}
+
+function persistLog(message: string, userId: string | null | undefined, workspaceId: number | null | undefined, level: LogLevel, category: LogCategory, meta: LogMeta) {
+  try {
+    db.prepare("INSERT INTO logs (user_id, message, workspace_id, level, category, product_id, context) VALUES (?, ?, ?, ?, ?, ?, ?)").run(
+      userId || null,
+      message,
+      workspaceId || null,
+      level,
+      category,
+      meta.productId !== undefined && meta.productId !== null ? String(meta.productId) : null,
+      meta.context ? JSON.stringify(meta.context) : null
+    );
+  } catch (e) {
+    console.error("Failed to save log to DB", e);
   }
+}
 
-  // If userId is provided, save to persistent database logs
-  if (userId) {
-    try {
-      db.prepare("INSERT INTO logs (user_id, message) VALUES (?, ?)").run(userId, message);
-      // Keep only last 50 logs per user to save space
-      db.prepare("DELETE FROM logs WHERE user_id = ? AND id NOT IN (SELECT id FROM logs WHERE user_id = ? ORDER BY timestamp DESC LIMIT 50)").run(userId, userId);
-    } catch (e) {
-      console.error("Failed to save log to DB", e);
+// userId is the member who acted (none for system records); workspace logs are shared with every member of the workspace
+function log(message: string, userId?: string | null, workspaceId?: number | null, meta: LogMeta = {}) {
+  const level = meta.level || "info";
+  const category = meta.category || "system";
+  const formatted = `[${logTimestamp()}] ${level.toUpperCase()} [${category}] ${message}`;
+  if (level === "error") console.error(formatted);
+  else if (level === "warn") console.warn(formatted);
+  else console.log(formatted);
+  persistLog(message, userId, workspaceId, level, category, meta);
+}
+
+// Replaces a bare console.error: the stack still goes to the console, the record goes to the logs table
+function logError(message: string, error: any, category: LogCategory, userId?: string | null, meta: Omit<LogMeta, "level" | "category"> = {}) {
+  console.error(`[${logTimestamp()}] ERROR [${category}] ${message}:`, error);
+  const detail = error?.response?.data ? JSON.stringify(error.response.data) : (error?.message || String(error));
+  const key = `${category}:${userId || ""}:${message}`;
+  const now = Date.now();
+  if (now - (lastErrorLogged.get(key) || 0) < LOG_ERROR_DEDUPE_MS) return;
+  lastErrorLogged.set(key, now);
+  persistLog(`${message}: ${detail}`, userId, null, "error", category, { ...meta, context: { ...meta.context, error: detail } });
+}
+
+interface LogQuery {
+  // Owner clause in the MonitorScope shape (the logs table has the same user_id/workspace_id columns); omitted for admins
+  owner?: { where: string; param: string | number };
+  minLevel?: LogLevel;
+  category?: LogCategory;
+  search?: string;
+  // UTC "YYYY-MM-DD HH:MM:SS", comparable with logs.timestamp
+  since?: string;
+}
+
+function logQuerySql(query: LogQuery) {
+  const clauses: string[] = [];
+  const params: (string | number)[] = [];
+  if (query.owner) {
+    clauses.push(query.owner.where);
+    params.push(query.owner.param);
+  }
+  if (query.minLevel) {
+    const levels = LOG_LEVELS.slice(LOG_LEVELS.indexOf(query.minLevel));
+    clauses.push(`level IN (${levels.map(() => "?").join(", ")})`);
+    params.push(...levels);
+  }
+  if (query.category) {
+    clauses.push("category = ?");
+    params.push(query.category);
+  }
+  if (query.search) {
+    clauses.push("message LIKE ?");
+    params.push(`%${query.search}%`);
+  }
+  if (query.since) {
+    clauses.push("timestamp >= ?");
+    params.push(query.since);
+  }
+  return { where: clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "", params };
+}
+
+function countLogs(query: LogQuery) {
+  const { where, params } = logQuerySql(query);
+  return (db.prepare(`SELECT COUNT(*) as count FROM logs ${where}`).get(...params) as any).count as number;
+}
+
+// Newest first
+function findLogs(query: LogQuery, limit: number, offset = 0) {
+  const { where, params } = logQuerySql(query);
+  return db.prepare(`SELECT * FROM logs ${where} ORDER BY id DESC LIMIT ? OFFSET ?`).all(...params, limit, offset) as any[];
+}
+
+// "/logs buy 2", "/logs errors 3": a category, a level and a page number in any order
+function parseLogFilter(tokens: string[]): { query: LogQuery; page: number; label: string[]; error?: string } {
+  const query: LogQuery = {};
+  const label: string[] = [];
+  let page = 1;
+  for (const token of tokens.map(t => t.toLowerCase()).filter(Boolean)) {
+    if (/^\d+$/.test(token)) {
+      page = Math.max(1, parseInt(token));
+    } else if (["errors", "error", "loi"].includes(token)) {
+      query.minLevel = "error";
+      label.push("lỗi");
+    } else if (["warn", "warnings", "canhbao"].includes(token)) {
+      query.minLevel = "warn";
+      label.push("cảnh báo trở lên");
+    } else if (LOG_CATEGORIES.includes(token as LogCategory)) {
+      query.category = token as LogCategory;
+      label.push(token);
+    } else {
+      return { query, page, label, error: `❌ Bộ lọc không hợp lệ: ${token}\nDùng: ${LOG_CATEGORIES.join(", ")}, errors, warn` };
     }
   }
+  return { query, page, label };
+}
+
+function pruneLogs() {
+  const expired = db.prepare("DELETE FROM logs WHERE timestamp < datetime('now', ?)").run(`-${LOG_RETENTION_DAYS} days`);
+  const overflow = db.prepare("DELETE FROM logs WHERE id <= (SELECT id FROM logs ORDER BY id DESC LIMIT 1 OFFSET ?)").run(LOG_MAX_ROWS);
+  const now = Date.now();
+  lastErrorLogged.forEach((at, key) => {
+    if (now - at > LOG_ERROR_DEDUPE_MS) lastErrorLogged.delete(key);
+  });
+  return expired.changes + overflow.changes;
+}
+
+// Live Events - scans publish what they detect here and /api/events streams each user's events to the dashboard
+type BotEventType = "in_stock" | "out_of_stock" | "autobuy_success" | "autobuy_failed" | "schedule_fired";
+
+interface BotEvent {
+  id: number;
+  type: BotEventType;
+  userId: string;
+  monitorId: number;
+  productId: string;
+  productName: string;
+  // Stock for in/out of stock, quantity bought for auto-buy
+  amount?: number;
+  message?: string;
+  timestamp: number;
+}
+
+const eventBus = new EventEmitter();
+// One listener per open dashboard tab
+eventBus.setMaxListeners(0);
+const RECENT_EVENTS_MAX = 100;
+const recentEvents: BotEvent[] = [];
+// Seeded from the clock so IDs keep increasing across restarts and a reconnecting Last-Event-ID stays comparable
+let lastEventId = Date.now();
+
+function publishEvent(event: Omit<BotEvent, "id" | "timestamp">) {
+  const published: BotEvent = { ...event, id: ++lastEventId, timestamp: Date.now() };
+  recentEvents.push(published);
+  if (recentEvents.length > RECENT_EVENTS_MAX) recentEvents.shift();
+  eventBus.emit("event", published);
+}
+
+// Metrics - counters and histograms kept in memory and rendered in the Prometheus text format by GET /metrics
+type MetricType = "counter" | "gauge" | "histogram";
+type MetricLabels = { [key: string]: string };
+
+interface MetricSeries {
+  labels: MetricLabels;
+  // Counter value, or the observation count of a histogram
+  value: number;
+  sum: number;
+  // Cumulative counts per METRIC_BUCKETS bound
+  buckets: number[];
+}
+
+interface Metric {
+  type: MetricType;
+  help: string;
+  series: Map<string, MetricSeries>;
+}
+
+const METRIC_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const metrics = new Map<string, Metric>();
+
+function defineMetric(name: string, type: MetricType, help: string) {
+  metrics.set(name, { type, help, series: new Map() });
+}
+
+defineMetric("shopbot_scan_duration_seconds", "histogram", "Duration of completed background scans by job");
+defineMetric("shopbot_scans_skipped_total", "counter", "Scans skipped because the previous scan of the job was still running");
+defineMetric("shopbot_upstream_request_duration_seconds", "histogram", "Latency of shop API requests by provider and endpoint");
+defineMetric("shopbot_upstream_errors_total", "counter", "Shop API requests that failed with a network or HTTP error");
+defineMetric("shopbot_catalog_cache_requests_total", "counter", "Catalog lookups by result: hit, miss, or deduped onto an in-flight request");
+defineMetric("shopbot_purchase_attempts_total", "counter", "BResource.php calls by order source");
+defineMetric("shopbot_purchase_successes_total", "counter", "Successful BResource.php calls by order source");
+defineMetric("shopbot_purchase_failures_total", "counter", "Failed BResource.php calls by order source and failure reason");
+defineMetric("shopbot_telegram_send_failures_total", "counter", "Bot-initiated Telegram API calls that failed to send or edit a message");
+
+function metricSeries(name: string, labels: MetricLabels) {
+  const metric = metrics.get(name)!;
+  const key = JSON.stringify(labels);
+  let series = metric.series.get(key);
+  if (!series) {
+    series = { labels, value: 0, sum: 0, buckets: METRIC_BUCKETS.map(() => 0) };
+    metric.series.set(key, series);
+  }
+  return series;
+}
+
+function incMetric(name: string, labels: MetricLabels = {}, by = 1) {
+  metricSeries(name, labels).value += by;
+}
+
+function observeMetric(name: string, labels: MetricLabels, seconds: number) {
+  const series = metricSeries(name, labels);
+  series.value++;
+  series.sum += seconds;
+  METRIC_BUCKETS.forEach((bound, i) => {
+    if (seconds <= bound) series.buckets[i]++;
+  });
+}
+
+function formatMetricLabels(labels: MetricLabels) {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// Gauges are read from live state at scrape time instead of being tracked
+function renderMetrics(gauges: { name: string, help: string, values: [MetricLabels, number][] }[]) {
+  const lines: string[] = [];
+  metrics.forEach((metric, name) => {
+    lines.push(`# HELP ${name} ${metric.help}`, `# TYPE ${name} ${metric.type}`);
+    metric.series.forEach(series => {
+      if (metric.type !== "histogram") {
+        lines.push(`${name}${formatMetricLabels(series.labels)} ${series.value}`);
+        return;
+      }
+      METRIC_BUCKETS.forEach((bound, i) => {
+        lines.push(`${name}_bucket${formatMetricLabels({ ...series.labels, le: String(bound) })} ${series.buckets[i]}`);
+      });
+      lines.push(`${name}_bucket${formatMetricLabels({ ...series.labels, le: "+Inf" })} ${series.value}`);
+      lines.push(`${name}_sum${formatMetricLabels(series.labels)} ${series.sum}`);
+      lines.push(`${name}_count${formatMetricLabels(series.labels)} ${series.value}`);
+    });
+  });
+  for (const gauge of gauges) {
+    lines.push(`# HELP ${gauge.name} ${gauge.help}`, `# TYPE ${gauge.name} gauge`);
+    for (const [labels, value] of gauge.values) lines.push(`${gauge.name}${formatMetricLabels(labels)} ${value}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+// Health - scan completions, upstream outcomes and the Telegram launch state behind /api/health and the watchdog
+type ScanJob = "general" | "group_report";
+
+const processStartedAt = Date.now();
+// Cron period of each background job, also shown by /status
+const SCAN_INTERVAL_SECONDS: { [key in ScanJob]: number } = { general: 2, group_report: 15 };
+// How long a job may go without completing a scan before it counts as stalled
+const SCAN_STALL_MS: { [key in ScanJob]: number } = { general: 60 * 1000, group_report: 2 * 60 * 1000 };
+const SCAN_JOB_LABELS: { [key in ScanJob]: string } = {
+  general: `kho & Auto-buy (${SCAN_INTERVAL_SECONDS.general}s)`,
+  group_report: `báo cáo nhóm (${SCAN_INTERVAL_SECONDS.group_report}s)`
+};
+const scanCompletedAt: { [key in ScanJob]: number | null } = { general: null, group_report: null };
+
+// Error rates are measured over this window; a spike needs enough requests to mean something
+const UPSTREAM_WINDOW_MS = 5 * 60 * 1000;
+const UPSTREAM_MIN_REQUESTS = 5;
+const UPSTREAM_ALERT_RATE = 0.5;
+// An alert only clears once the rate falls well below the alert level, so it does not flap
+const UPSTREAM_RECOVERY_RATE = 0.2;
+
+interface UpstreamStatus {
+  provider: string;
+  endpoint: string;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  // Outcomes within UPSTREAM_WINDOW_MS, oldest first
+  recent: { at: number; ok: boolean }[];
+}
+
+const upstreamStatus = new Map<string, UpstreamStatus>();
+
+function recordUpstream(provider: string, endpoint: string, error?: any) {
+  const key = `${provider}:${endpoint}`;
+  let status = upstreamStatus.get(key);
+  if (!status) {
+    status = { provider, endpoint, lastSuccessAt: null, lastFailureAt: null, lastError: null, recent: [] };
+    upstreamStatus.set(key, status);
+  }
+  const now = Date.now();
+  if (error) {
+    status.lastFailureAt = now;
+    status.lastError = error.message || String(error);
+  } else {
+    status.lastSuccessAt = now;
+  }
+  status.recent.push({ at: now, ok: !error });
+  upstreamWindow(status, now);
+}
+
+function upstreamWindow(status: UpstreamStatus, now = Date.now()) {
+  while (status.recent.length > 0 && status.recent[0].at < now - UPSTREAM_WINDOW_MS) status.recent.shift();
+  const errors = status.recent.filter(outcome => !outcome.ok).length;
+  return { requests: status.recent.length, errors, rate: status.recent.length > 0 ? errors / status.recent.length : 0 };
+}
+
+interface TelegramState {
+  state: "disabled" | "launching" | "running" | "retrying" | "stopped" | "failed";
+  since: number;
+  // 409 conflicts hit while launching, i.e. another instance polling with the same token
+  conflicts: number;
+  retriesLeft: number;
+  lastError: string | null;
+}
+
+const telegramState: TelegramState = { state: "launching", since: Date.now(), conflicts: 0, retriesLeft: 3, lastError: null };
+
+function setTelegramState(state: TelegramState["state"], lastError?: string | null) {
+  telegramState.state = state;
+  telegramState.since = Date.now();
+  if (lastError !== undefined) telegramState.lastError = lastError;
+}
+
+// Alerts the watchdog has sent and not yet cleared, keyed by problem
+const watchdogAlerts = new Map<string, { since: number; message: string }>();
+
+// Last write probe; refreshed by the watchdog so the unauthenticated /api/health never writes itself
+const databaseHealth = { writable: true, error: null as string | null, checkedAt: null as number | null };
+
+function checkDatabaseWritable() {
+  try {
+    db.prepare("INSERT INTO health_probe (id, checked_at) VALUES (1, ?) ON CONFLICT(id) DO UPDATE SET checked_at = excluded.checked_at").run(Date.now());
+    databaseHealth.writable = true;
+    databaseHealth.error = null;
+  } catch (e: any) {
+    databaseHealth.writable = false;
+    databaseHealth.error = e.message;
+  }
+  databaseHealth.checkedAt = Date.now();
+}
+
+function scanHealth(job: ScanJob, running: boolean, now = Date.now()) {
+  const last = scanCompletedAt[job];
+  const age = now - (last ?? processStartedAt);
+  return {
+    last_completed_at: last ? new Date(last).toISOString() : null,
+    age_seconds: Math.round(age / 1000),
+    running,
+    stalled: age > SCAN_STALL_MS[job]
+  };
+}
+
+// "down" (HTTP 503) when the 2s scan has stalled or the database is read-only, "degraded" for everything else that needs a look
+function healthReport() {
+  const now = Date.now();
+  const scans = {
+    general: scanHealth("general", isScanning, now),
+    group_report: scanHealth("group_report", isGroupScanning, now)
+  };
+  const upstream = Array.from(upstreamStatus.values()).map(status => {
+    const window = upstreamWindow(status, now);
+    return {
+      provider: status.provider,
+      endpoint: status.endpoint,
+      last_success_at: status.lastSuccessAt ? new Date(status.lastSuccessAt).toISOString() : null,
+      last_failure_at: status.lastFailureAt ? new Date(status.lastFailureAt).toISOString() : null,
+      last_error: status.lastError,
+      requests_5m: window.requests,
+      errors_5m: window.errors,
+      error_rate_5m: Number(window.rate.toFixed(2))
+    };
+  });
+  const database = {
+    writable: databaseHealth.writable,
+    error: databaseHealth.error,
+    checked_at: databaseHealth.checkedAt ? new Date(databaseHealth.checkedAt).toISOString() : null
+  };
+  const telegram = {
+    state: telegramState.state,
+    since: new Date(telegramState.since).toISOString(),
+    conflicts: telegramState.conflicts,
+    retries_left: telegramState.retriesLeft,
+    last_error: telegramState.lastError
+  };
+
+  const upstreamFailing = upstream.some(u => u.requests_5m >= UPSTREAM_MIN_REQUESTS && u.error_rate_5m >= UPSTREAM_ALERT_RATE);
+  const telegramDown = ["retrying", "stopped", "failed"].includes(telegramState.state);
+  const status = !database.writable || scans.general.stalled
+    ? "down"
+    : scans.group_report.stalled || upstreamFailing || telegramDown ? "degraded" : "ok";
+
+  return {
+    status,
+    bot_running: telegramState.state === "running",
+    uptime_seconds: Math.round((now - processStartedAt) / 1000),
+    scans,
+    upstream,
+    telegram,
+    database,
+    alerts: Array.from(watchdogAlerts.keys())
+  };
 }
 
 // Initialize Database
@@ -58,11 +463,11 @@ db.exec(`
     product_name TEXT,
     status TEXT DEFAULT 'monitoring',
     last_checked DATETIME,
-    auto_buy INTEGER DEFAULT 0,
-    auto_buy_amount INTEGER DEFAULT 1,
-    buy_limit INTEGER DEFAULT 0,
-    bought_count INTEGER DEFAULT 0,
-    last_amount INTEGER DEFAULT 0
+    last_amount INTEGER DEFAULT 0,
+    provider TEXT DEFAULT 'saidiait',
+    max_price INTEGER DEFAULT 0,
+    price_alert INTEGER DEFAULT 0,
+    last_price INTEGER DEFAULT 0
   )
 `);
 
@@ -70,8 +475,207 @@ db.exec(`
   CREATE TABLE IF NOT EXISTS users (
     user_id TEXT PRIMARY KEY,
     chat_id TEXT,
+    active_account_id INTEGER
+  )
+`);
+
+// Saved shop logins per Telegram user; users.active_account_id is the one commands use
+db.exec(`
+  CREATE TABLE IF NOT EXISTS accounts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT,
+    label TEXT,
     username TEXT,
-    password TEXT
+    password TEXT,
+    provider TEXT DEFAULT 'saidiait',
+    confirm_buy INTEGER DEFAULT 1,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, label)
+  )
+`);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS orders (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT,
+    chat_id TEXT,
+    provider TEXT,
+    product_id TEXT,
+    product_name TEXT,
+    quantity INTEGER,
+    unit_price INTEGER DEFAULT 0,
+    total_price INTEGER DEFAULT 0,
+    status TEXT,
+    trans_id TEXT,
+    message TEXT,
+    accounts TEXT,
+    file_name TEXT,
+    raw_response TEXT,
+    source TEXT,
+    workspace_id INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+db.exec("CREATE INDEX IF NOT EXISTS idx_orders_user ON orders (user_id, created_at)");
+
+// Spending caps in VND, 0 = unlimited
+db.exec(`
+  CREATE TABLE IF NOT EXISTS budgets (
+    user_id TEXT PRIMARY KEY,
+    daily INTEGER DEFAULT 0,
+    weekly INTEGER DEFAULT 0,
+    monthly INTEGER DEFAULT 0,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS stock_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    provider TEXT,
+    product_id TEXT,
+    amount INTEGER,
+    price INTEGER,
+    recorded_at INTEGER
+  )
+`);
+db.exec("CREATE INDEX IF NOT EXISTS idx_stock_history_product ON stock_history (provider, product_id, recorded_at)");
+
+// Last seen full catalog per shop, diffed on every fresh ListResource.php fetch
+db.exec(`
+  CREATE TABLE IF NOT EXISTS catalog_snapshot (
+    provider TEXT,
+    product_id TEXT,
+    category TEXT,
+    name TEXT,
+    price TEXT,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (provider, product_id)
+  )
+`);
+
+// /newproducts opt-ins; empty filters match everything
+db.exec(`
+  CREATE TABLE IF NOT EXISTS catalog_subscriptions (
+    user_id TEXT PRIMARY KEY,
+    chat_id TEXT,
+    enabled INTEGER DEFAULT 1,
+    category_filter TEXT,
+    keyword_filter TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+// Team workspaces: a Telegram group whose members share monitors, schedules and logs
+db.exec(`
+  CREATE TABLE IF NOT EXISTS workspaces (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    chat_id TEXT UNIQUE,
+    name TEXT,
+    owner_id TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+// role: owner (manages members), buyer (may buy and change auto-buy), viewer (notifications and read-only commands)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS workspace_members (
+    workspace_id INTEGER,
+    user_id TEXT,
+    display_name TEXT,
+    role TEXT DEFAULT 'viewer',
+    joined_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (workspace_id, user_id)
+  )
+`);
+
+// Web dashboard logins; only a SHA-256 of the cookie token is stored
+db.exec(`
+  CREATE TABLE IF NOT EXISTS dashboard_sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    expires_at INTEGER
+  )
+`);
+
+// Single row the watchdog rewrites to prove the database still accepts writes; /api/health serves its cached result
+db.exec(`
+  CREATE TABLE IF NOT EXISTS health_probe (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    checked_at INTEGER
+  )
+`);
+
+// Users an admin blocked with /admin disable; they can't use the bot and their monitors are not scanned
+db.exec(`
+  CREATE TABLE IF NOT EXISTS blocked_users (
+    user_id TEXT PRIMARY KEY,
+    blocked_by TEXT,
+    blocked_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+// Named product sets per user, reported on demand or periodically when subscribed
+const hadWatchGroups = !!db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'watch_groups'").get();
+db.exec(`
+  CREATE TABLE IF NOT EXISTS watch_groups (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT,
+    chat_id TEXT,
+    name TEXT,
+    subscribed INTEGER DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, name)
+  )
+`);
+db.exec(`
+  CREATE TABLE IF NOT EXISTS watch_group_items (
+    group_id INTEGER,
+    product_id TEXT,
+    PRIMARY KEY (group_id, product_id)
+  )
+`);
+
+// Auto-buy rules: each monitor can have several, evaluated in id order
+db.exec(`
+  CREATE TABLE IF NOT EXISTS rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    monitor_id INTEGER,
+    user_id TEXT,
+    action TEXT,
+    quantity INTEGER DEFAULT 1,
+    buy_limit INTEGER DEFAULT 0,
+    bought_count INTEGER DEFAULT 0,
+    min_stock INTEGER DEFAULT 0,
+    max_price INTEGER DEFAULT 0,
+    min_balance INTEGER DEFAULT 0,
+    time_start TEXT,
+    time_end TEXT,
+    weekdays TEXT,
+    enabled INTEGER DEFAULT 1,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+db.exec("CREATE INDEX IF NOT EXISTS idx_rules_monitor ON rules (monitor_id)");
+
+// Auto-buy schedules: cron expression in Vietnam time, next_run/last_run/end_at are epoch ms
+db.exec(`
+  CREATE TABLE IF NOT EXISTS schedules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    monitor_id INTEGER,
+    user_id TEXT,
+    cron TEXT,
+    recurring INTEGER DEFAULT 0,
+    amount INTEGER DEFAULT 1,
+    buy_limit INTEGER DEFAULT 0,
+    end_time TEXT,
+    rule_id INTEGER,
+    next_run INTEGER,
+    last_run INTEGER,
+    end_at INTEGER,
+    enabled INTEGER DEFAULT 1,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
   )
 `);
 
@@ -84,16 +688,54 @@ db.exec(`
   )
 `);
 
-// Migration: Add missing columns if they don't exist
+// Migration: Add missing columns if they don't exist. Steps that copy data and then drop or backfill columns run in
+// their own transaction, so a failure leaves that step's old columns intact to retry on the next start.
 try {
   const monitorInfo = db.prepare("PRAGMA table_info(monitors)").all();
   const monitorCols = monitorInfo.map((col: any) => col.name);
+  if (!monitorCols.includes('workspace_id')) {
+    // NULL = personal monitor of user_id; otherwise shared by the workspace and user_id is the member who added it
+    db.exec("ALTER TABLE monitors ADD COLUMN workspace_id INTEGER");
+    console.log("Migration: Added workspace_id column to monitors");
+  }
+  const logCols = db.prepare("PRAGMA table_info(logs)").all().map((col: any) => col.name);
+  if (!logCols.includes('workspace_id')) {
+    db.exec("ALTER TABLE logs ADD COLUMN workspace_id INTEGER");
+    console.log("Migration: Added workspace_id column to logs");
+  }
+  if (!logCols.includes('level')) {
+    // Older records were plain activity messages
+    db.exec("ALTER TABLE logs ADD COLUMN level TEXT DEFAULT 'info'");
+    db.exec("ALTER TABLE logs ADD COLUMN category TEXT DEFAULT 'system'");
+    db.exec("ALTER TABLE logs ADD COLUMN product_id TEXT");
+    db.exec("ALTER TABLE logs ADD COLUMN context TEXT");
+    console.log("Migration: Added level, category, product_id and context columns to logs");
+  }
+  const orderCols = db.prepare("PRAGMA table_info(orders)").all().map((col: any) => col.name);
+  if (!orderCols.includes('workspace_id')) {
+    db.exec("ALTER TABLE orders ADD COLUMN workspace_id INTEGER");
+    console.log("Migration: Added workspace_id column to orders");
+  }
+  db.exec("CREATE INDEX IF NOT EXISTS idx_logs_user ON logs (user_id, workspace_id)");
+  db.exec("CREATE INDEX IF NOT EXISTS idx_logs_workspace ON logs (workspace_id)");
+  if (!monitorCols.includes('account_id')) {
+    // NULL follows the user's active account; /bind pins a monitor to one saved account
+    db.exec("ALTER TABLE monitors ADD COLUMN account_id INTEGER");
+    console.log("Migration: Added account_id column to monitors");
+  }
+  if (!monitorCols.includes('account_user_id')) {
+    // Whose account auto-buy uses, set by /bind in a workspace; NULL = the creator in user_id
+    db.exec("ALTER TABLE monitors ADD COLUMN account_user_id TEXT");
+    console.log("Migration: Added account_user_id column to monitors");
+  }
   
   if (!monitorCols.includes('user_id')) {
-    db.exec("ALTER TABLE monitors ADD COLUMN user_id TEXT");
-    // Backfill user_id with chat_id for existing data
-    db.exec("UPDATE monitors SET user_id = chat_id WHERE user_id IS NULL");
-    console.log("Migration: Added user_id column to monitors");
+    db.transaction(() => {
+      db.exec("ALTER TABLE monitors ADD COLUMN user_id TEXT");
+      // Backfill user_id with chat_id for existing data
+      db.exec("UPDATE monitors SET user_id = chat_id WHERE user_id IS NULL");
+      console.log("Migration: Added user_id column to monitors");
+    })();
   }
   if (!monitorCols.includes('product_id')) {
     db.exec("ALTER TABLE monitors ADD COLUMN product_id TEXT");
@@ -107,47 +749,119 @@ try {
     db.exec("ALTER TABLE monitors ADD COLUMN product_name TEXT");
     console.log("Migration: Added product_name column");
   }
-  if (!monitorCols.includes('auto_buy')) {
-    db.exec("ALTER TABLE monitors ADD COLUMN auto_buy INTEGER DEFAULT 0");
-    console.log("Migration: Added auto_buy column");
-  }
-  if (!monitorCols.includes('auto_buy_amount')) {
-    db.exec("ALTER TABLE monitors ADD COLUMN auto_buy_amount INTEGER DEFAULT 1");
-    console.log("Migration: Added auto_buy_amount column");
-  }
   if (!monitorCols.includes('last_amount')) {
     db.exec("ALTER TABLE monitors ADD COLUMN last_amount INTEGER DEFAULT 0");
     console.log("Migration: Added last_amount column");
   }
-  if (!monitorCols.includes('buy_limit')) {
-    db.exec("ALTER TABLE monitors ADD COLUMN buy_limit INTEGER DEFAULT 0");
-    console.log("Migration: Added buy_limit column");
+  if (!monitorCols.includes('provider')) {
+    db.exec("ALTER TABLE monitors ADD COLUMN provider TEXT DEFAULT 'saidiait'");
+    console.log("Migration: Added provider column to monitors");
+  }
+  if (!monitorCols.includes('max_price')) {
+    db.exec("ALTER TABLE monitors ADD COLUMN max_price INTEGER DEFAULT 0");
+    console.log("Migration: Added max_price column");
   }
-  if (!monitorCols.includes('bought_count')) {
-    db.exec("ALTER TABLE monitors ADD COLUMN bought_count INTEGER DEFAULT 0");
-    console.log("Migration: Added bought_count column");
+  if (!monitorCols.includes('price_alert')) {
+    db.exec("ALTER TABLE monitors ADD COLUMN price_alert INTEGER DEFAULT 0");
+    console.log("Migration: Added price_alert column");
   }
-  if (!monitorCols.includes('schedule_time')) {
-    db.exec("ALTER TABLE monitors ADD COLUMN schedule_time TEXT");
-    console.log("Migration: Added schedule_time column");
+  if (!monitorCols.includes('last_price')) {
+    db.exec("ALTER TABLE monitors ADD COLUMN last_price INTEGER DEFAULT 0");
+    console.log("Migration: Added last_price column");
   }
-  if (!monitorCols.includes('schedule_amount')) {
-    db.exec("ALTER TABLE monitors ADD COLUMN schedule_amount INTEGER");
-    console.log("Migration: Added schedule_amount column");
+  if (monitorCols.includes('auto_buy')) {
+    db.transaction(() => {
+      // Legacy auto-buy columns become one rule per monitor. A limit used to mean "buy up to the limit as fast as possible".
+      const legacy = db.prepare("SELECT id, user_id, auto_buy_amount, buy_limit, bought_count FROM monitors WHERE auto_buy = 1").all() as any[];
+      const insertRule = db.prepare("INSERT INTO rules (monitor_id, user_id, action, quantity, buy_limit, bought_count) VALUES (?, ?, ?, ?, ?, ?)");
+      for (const m of legacy) {
+        const limit = m.buy_limit || 0;
+        insertRule.run(m.id, m.user_id, limit > 0 ? "buy_all" : "buy_fixed", m.auto_buy_amount || 1, limit, m.bought_count || 0);
+      }
+      for (const col of ['auto_buy', 'auto_buy_amount', 'buy_limit', 'bought_count']) {
+        if (monitorCols.includes(col)) db.exec(`ALTER TABLE monitors DROP COLUMN ${col}`);
+      }
+      console.log(`Migration: Moved ${legacy.length} auto-buy settings to rules`);
+    })();
   }
-  if (!monitorCols.includes('schedule_limit')) {
-    db.exec("ALTER TABLE monitors ADD COLUMN schedule_limit INTEGER");
-    console.log("Migration: Added schedule_limit column");
+  if (monitorCols.includes('schedule_time')) {
+    db.transaction(() => {
+      // Pending one-shot HH:mm schedules; next_run is filled in once the cron helpers are loaded
+      const legacy = db.prepare("SELECT id, user_id, schedule_time, schedule_amount, schedule_limit FROM monitors WHERE schedule_time IS NOT NULL").all() as any[];
+      const insertSchedule = db.prepare("INSERT INTO schedules (monitor_id, user_id, cron, recurring, amount, buy_limit) VALUES (?, ?, ?, 0, ?, ?)");
+      let moved = 0;
+      for (const m of legacy) {
+        // Same HH:mm check as /schedule; anything else would become a cron string that never parses
+        const match = String(m.schedule_time).trim().match(/^([0-1]?[0-9]|2[0-3]):([0-5][0-9])$/);
+        if (!match) {
+          console.warn(`Migration: Skipped schedule of monitor ${m.id}, invalid time "${m.schedule_time}"`);
+          continue;
+        }
+        insertSchedule.run(m.id, m.user_id, `${Number(match[2])} ${Number(match[1])} * * *`, m.schedule_amount || 1, m.schedule_limit || 0);
+        moved++;
+      }
+      for (const col of ['schedule_time', 'schedule_amount', 'schedule_limit']) {
+        if (monitorCols.includes(col)) db.exec(`ALTER TABLE monitors DROP COLUMN ${col}`);
+      }
+      console.log(`Migration: Moved ${moved} of ${legacy.length} schedules to schedules table`);
+    })();
   }
 
   const userInfo = db.prepare("PRAGMA table_info(users)").all();
   const userCols = userInfo.map((col: any) => col.name);
   if (!userCols.includes('user_id')) {
-    // This is a bit tricky because user_id is the new primary key.
-    // For simplicity, we'll add it and try to migrate.
-    db.exec("ALTER TABLE users ADD COLUMN user_id TEXT");
-    db.exec("UPDATE users SET user_id = chat_id WHERE user_id IS NULL");
-    console.log("Migration: Added user_id column to users");
+    db.transaction(() => {
+      // This is a bit tricky because user_id is the new primary key.
+      // For simplicity, we'll add it and try to migrate.
+      db.exec("ALTER TABLE users ADD COLUMN user_id TEXT");
+      db.exec("UPDATE users SET user_id = chat_id WHERE user_id IS NULL");
+      console.log("Migration: Added user_id column to users");
+    })();
+  }
+  if (userCols.includes('username')) {
+    db.transaction(() => {
+      // The single login stored on users becomes the user's first (and active) saved account
+      const provider = userCols.includes('provider') ? "COALESCE(provider, 'saidiait')" : "'saidiait'";
+      const confirmBuy = userCols.includes('confirm_buy') ? "COALESCE(confirm_buy, 1)" : "1";
+      const legacy = db.prepare(`SELECT user_id, username, password, ${provider} AS provider, ${confirmBuy} AS confirm_buy FROM users WHERE username IS NOT NULL`).all() as any[];
+      if (!userCols.includes('active_account_id')) db.exec("ALTER TABLE users ADD COLUMN active_account_id INTEGER");
+      for (const u of legacy) {
+        const info = db.prepare("INSERT OR IGNORE INTO accounts (user_id, label, username, password, provider, confirm_buy) VALUES (?, ?, ?, ?, ?, ?)")
+          .run(u.user_id, String(u.username).toLowerCase(), u.username, u.password, u.provider, u.confirm_buy);
+        if (info.changes > 0) db.prepare("UPDATE users SET active_account_id = ? WHERE user_id = ?").run(info.lastInsertRowid, u.user_id);
+      }
+      for (const col of ['username', 'password', 'provider', 'confirm_buy']) {
+        if (userCols.includes(col)) db.exec(`ALTER TABLE users DROP COLUMN ${col}`);
+      }
+      console.log(`Migration: Moved ${legacy.length} logins to accounts`);
+    })();
+  }
+  if (!userCols.includes('last_active')) {
+    db.exec("ALTER TABLE users ADD COLUMN last_active DATETIME");
+    console.log("Migration: Added last_active column to users");
+  }
+
+  if (!hadWatchGroups) {
+    db.transaction(() => {
+      // The old Azeem report went to every chat with a monitor whose owner was logged in; those chats keep it as a
+      // subscribed group with the Azeem IDs (21, 78, 108). Runs after the login move above so accounts is filled.
+      const azeemChats = db.prepare(`
+        SELECT DISTINCT user_id, chat_id FROM monitors
+        WHERE user_id IN (SELECT user_id FROM accounts) AND chat_id IS NOT NULL
+        ORDER BY user_id, chat_id
+      `).all() as any[];
+      const insertGroup = db.prepare("INSERT INTO watch_groups (user_id, chat_id, name, subscribed) VALUES (?, ?, ?, 1)");
+      const insertItem = db.prepare("INSERT INTO watch_group_items (group_id, product_id) VALUES (?, ?)");
+      const seeded = new Map<string, number>();
+      for (const c of azeemChats) {
+        // Group names are unique per user, so a second chat of the same user gets azeem_2
+        const count = (seeded.get(c.user_id) || 0) + 1;
+        seeded.set(c.user_id, count);
+        const info = insertGroup.run(c.user_id, c.chat_id, count === 1 ? "azeem" : `azeem_${count}`);
+        for (const productId of ["21", "78", "108"]) insertItem.run(info.lastInsertRowid, productId);
+      }
+      console.log(`Migration: Created azeem watch groups for ${azeemChats.length} chats`);
+    })();
   }
 } catch (e) {
   console.error("Migration Error:", e);
@@ -164,72 +878,996 @@ app.use(express.json());
 // API routes
 app.get("/api/health", (req, res) => {
   console.log("GET /api/health");
-  res.json({ status: "ok", bot_running: !!BOT_TOKEN });
+  const report = healthReport();
+  res.status(report.status === "down" ? 503 : 200).json(report);
 });
 
-app.get("/api/stats", (req, res) => {
-  console.log("GET /api/stats");
-  try {
-    const stats = db.prepare("SELECT count(*) as count, status FROM monitors GROUP BY status").all();
-    res.json(stats);
-  } catch (error) {
-    console.error("Stats API Error:", error);
-    res.status(500).json({ error: "Internal Server Error" });
+// Prometheus scrape endpoint; set METRICS_TOKEN to require "Authorization: Bearer <token>"
+app.get("/metrics", (req, res) => {
+  const token = process.env.METRICS_TOKEN;
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    return res.status(401).type("text/plain").send("Unauthorized\n");
   }
+
+  const monitorCounts = db.prepare("SELECT status, COUNT(*) as count FROM monitors GROUP BY status").all() as any[];
+  res.type("text/plain; version=0.0.4").send(renderMetrics([
+    {
+      name: "shopbot_scan_in_progress",
+      help: "Whether a scan of the job is running right now",
+      values: [[{ job: "general" }, isScanning ? 1 : 0], [{ job: "group_report" }, isGroupScanning ? 1 : 0]]
+    },
+    {
+      name: "shopbot_scan_last_completed_timestamp_seconds",
+      help: "Unix time of the last scan of the job that completed without throwing",
+      values: (Object.keys(scanCompletedAt) as ScanJob[])
+        .filter(job => scanCompletedAt[job] !== null)
+        .map(job => [{ job }, Math.floor(scanCompletedAt[job]! / 1000)] as [MetricLabels, number])
+    },
+    { name: "shopbot_catalog_cache_entries", help: "Catalogs currently held in apiCache", values: [[{}, Object.keys(apiCache).length]] },
+    { name: "shopbot_catalog_pending_requests", help: "Catalog fetches currently in flight", values: [[{}, pendingRequests.size]] },
+    { name: "shopbot_monitors", help: "Monitors by status", values: monitorCounts.map(row => [{ status: String(row.status) }, row.count] as [MetricLabels, number]) }
+  ]));
 });
 
-app.get("/api/external-list", async (req, res) => {
-  console.log("GET /api/external-list");
-  const { username, password } = req.query;
-  if (!username || !password) {
-    return res.status(400).json({ error: "Username and password are required" });
-  }
-  try {
-    const data = await getCachedAPI(String(username), String(password));
-    res.json(data);
-  } catch (error) {
-    console.error("External List API Error:", error);
-    res.status(500).json({ error: "Failed to fetch external API" });
-  }
+// Public command reference for the dashboard, generated from the bot's command registry
+app.get("/api/commands", (req, res) => {
+  res.json(commandRegistry
+    .filter(command => command.scope !== "admin")
+    .map(({ name, args, description, section, scope, example }) => ({
+      name, args: args || "", description, section: COMMAND_SECTIONS[section], scope: scope || "all", example: example || null
+    })));
 });
 
-// Bot Setup
-const BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
-if (!BOT_TOKEN) {
-  console.warn("TELEGRAM_BOT_TOKEN is not set in environment variables.");
-}
+// Dashboard Auth - /dashboard in Telegram issues a one-time code (or link) that is exchanged for a session cookie
+const DASHBOARD_CODE_TTL_MS = 10 * 60 * 1000;
+const DASHBOARD_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DASHBOARD_COOKIE = "dashboard_session";
 
-const bot = new Telegraf(BOT_TOKEN || "DUMMY_TOKEN");
+const dashboardCodes = new Map<string, { userId: string; expiresAt: number }>();
 
-// Rate Limiter Middleware
-const userLastAction = new Map<string, number>();
-const RATE_LIMIT_MS = 1500; // 1.5 seconds
+function issueDashboardCode(userId: string) {
+  const now = Date.now();
+  dashboardCodes.forEach((entry, code) => {
+    // Only the newest code of a user stays valid
+    if (entry.expiresAt < now || entry.userId === userId) dashboardCodes.delete(code);
+  });
+  const code = crypto.randomBytes(5).toString("hex").toUpperCase();
+  dashboardCodes.set(code, { userId, expiresAt: now + DASHBOARD_CODE_TTL_MS });
+  return code;
+}
 
-bot.use(async (ctx, next) => {
-  const userId = ctx.from?.id?.toString();
-  if (userId) {
-    const now = Date.now();
-    const lastAction = userLastAction.get(userId) || 0;
-    
-    if (now - lastAction < RATE_LIMIT_MS) {
-      // Only warn if they haven't been warned in the last 1 second to avoid spam
-      if (now - lastAction > RATE_LIMIT_MS - 1000) {
-        try {
-          if (ctx.callbackQuery) {
-            await ctx.answerCbQuery("⏳ Vui lòng thao tác chậm lại!", { show_alert: true });
-          } else {
-            await ctx.reply("⏳ Bạn đang thao tác quá nhanh. Vui lòng chờ 1.5s giữa các lệnh.");
-          }
-        } catch(e) {}
-      }
-      return; // Stop processing this request
-    }
-    userLastAction.set(userId, now);
+function hashSessionToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function readCookie(req: express.Request, name: string) {
+  for (const part of (req.headers.cookie || "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
   }
-  return next();
-});
+  return null;
+}
 
-// Simple API Cache
+function sessionCookie(token: string, maxAgeMs: number) {
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : "";
+  return `${DASHBOARD_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${Math.floor(maxAgeMs / 1000)}${secure}`;
+}
+
+function sessionUserId(req: express.Request): string | null {
+  const token = readCookie(req, DASHBOARD_COOKIE);
+  if (!token) return null;
+  const session = db.prepare("SELECT * FROM dashboard_sessions WHERE token_hash = ?").get(hashSessionToken(token)) as any;
+  if (!session || session.expires_at < Date.now()) return null;
+  return session.user_id;
+}
+
+// The shop account an API call uses: ?account=<label>, otherwise the active one
+function dashboardAccount(req: express.Request, res: express.Response) {
+  const userId = res.locals.userId as string;
+  const label = req.query.account ? String(req.query.account) : null;
+  const account = label ? getAccountByLabel(userId, label) : getUser(userId);
+  if (!account) {
+    res.status(400).json({ error: label ? `Unknown account ${label}` : "No shop account, use /login in Telegram first" });
+    return null;
+  }
+  return account;
+}
+
+app.post("/api/auth/login", (req, res) => {
+  console.log("POST /api/auth/login");
+  const code = String(req.body?.code || "").trim().toUpperCase();
+  const entry = dashboardCodes.get(code);
+  // Single use: the code is gone whether or not it was still valid
+  dashboardCodes.delete(code);
+  if (!entry || entry.expiresAt < Date.now() || isBlocked(entry.userId)) {
+    return res.status(401).json({ error: "Invalid or expired code, send /dashboard to the bot for a new one" });
+  }
+
+  const token = crypto.randomBytes(32).toString("hex");
+  db.prepare("INSERT INTO dashboard_sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)")
+    .run(hashSessionToken(token), entry.userId, Date.now() + DASHBOARD_SESSION_TTL_MS);
+  log("Đăng nhập bảng điều khiển web", entry.userId, null, { category: "auth" });
+  res.setHeader("Set-Cookie", sessionCookie(token, DASHBOARD_SESSION_TTL_MS));
+  res.json({ userId: entry.userId });
+});
+
+app.post("/api/auth/logout", (req, res) => {
+  console.log("POST /api/auth/logout");
+  const token = readCookie(req, DASHBOARD_COOKIE);
+  if (token) db.prepare("DELETE FROM dashboard_sessions WHERE token_hash = ?").run(hashSessionToken(token));
+  res.setHeader("Set-Cookie", sessionCookie("", 0));
+  res.json({ ok: true });
+});
+
+// Every /api route below needs a dashboard session and only sees that user's data
+app.use("/api", (req, res, next) => {
+  const userId = sessionUserId(req);
+  if (!userId || isBlocked(userId)) return res.status(401).json({ error: "Not logged in" });
+  res.locals.userId = userId;
+  next();
+});
+
+// Server-Sent Events: replays recent events (or everything after Last-Event-ID on reconnect), then streams live ones
+app.get("/api/events", (req, res) => {
+  const userId = res.locals.userId as string;
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive",
+    "X-Accel-Buffering": "no"
+  });
+  // EventSource reconnects by itself; ask it to retry quickly while the server restarts
+  res.write("retry: 3000\n\n");
+
+  const send = (event: BotEvent) => {
+    if (event.userId === userId) res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+  const lastId = Number(req.headers["last-event-id"]) || 0;
+  const backlog = recentEvents.filter(event => event.userId === userId && event.id > lastId);
+  (lastId ? backlog : backlog.slice(-20)).forEach(send);
+
+  eventBus.on("event", send);
+  // Comment lines keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), 25000);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    eventBus.off("event", send);
+  });
+});
+
+app.get("/api/me", (req, res) => {
+  const userId = res.locals.userId as string;
+  res.json({
+    userId,
+    isAdmin: isAdmin(userId),
+    accounts: getAccounts(userId).map(account => ({
+      label: account.label,
+      provider: account.provider,
+      shop: getShopProvider(account.provider).name,
+      active: account.account_id === account.active_account_id
+    }))
+  });
+});
+
+app.get("/api/balance", async (req, res) => {
+  console.log("GET /api/balance");
+  try {
+    const accounts = getAccounts(res.locals.userId);
+    const balances = await Promise.all(accounts.map(account => getBalance(account.username, account.password, account.provider)));
+    res.json(accounts.map((account, i) => ({
+      label: account.label,
+      shop: getShopProvider(account.provider).name,
+      active: account.account_id === account.active_account_id,
+      balance: balances[i] ? (typeof balances[i] === "string" ? balances[i] : (balances[i].money || balances[i].balance || "0")) : null
+    })));
+  } catch (error) {
+    logError("Balance API Error", error, "buy", res.locals.userId);
+    res.status(500).json({ error: "Failed to fetch balance" });
+  }
+});
+
+app.get("/api/orders", (req, res) => {
+  console.log("GET /api/orders");
+  try {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit)) || 20, 1), 100);
+    const orders = db.prepare(`
+      SELECT id, provider, product_id, product_name, quantity, unit_price, total_price, status, trans_id, message, source, created_at
+      FROM orders WHERE user_id = ? ORDER BY id DESC LIMIT ?
+    `).all(res.locals.userId, limit);
+    res.json(orders);
+  } catch (error) {
+    logError("Orders API Error", error, "buy", res.locals.userId);
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// Dashboard log viewer and export: the session user's personal logs, or every log for admins with ?all=1
+const LOG_EXPORT_MAX = 10000;
+
+function dashboardLogQuery(req: express.Request, res: express.Response): LogQuery | null {
+  const userId = res.locals.userId as string;
+  const query: LogQuery = {};
+  if (req.query.all === "1") {
+    if (!isAdmin(userId)) {
+      res.status(403).json({ error: "Only admins can read every log" });
+      return null;
+    }
+  } else {
+    query.owner = personalScope(userId);
+  }
+
+  const level = String(req.query.level || "");
+  if (level) {
+    if (!LOG_LEVELS.includes(level as LogLevel)) {
+      res.status(400).json({ error: `level must be one of ${LOG_LEVELS.join(", ")}` });
+      return null;
+    }
+    query.minLevel = level as LogLevel;
+  }
+  const category = String(req.query.category || "");
+  if (category) {
+    if (!LOG_CATEGORIES.includes(category as LogCategory)) {
+      res.status(400).json({ error: `category must be one of ${LOG_CATEGORIES.join(", ")}` });
+      return null;
+    }
+    query.category = category as LogCategory;
+  }
+  if (req.query.q && String(req.query.q).trim()) query.search = String(req.query.q).trim();
+  if (req.query.days) {
+    const days = parseInt(String(req.query.days));
+    if (!(days > 0)) {
+      res.status(400).json({ error: "days must be a positive number" });
+      return null;
+    }
+    query.since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 19).replace('T', ' ');
+  }
+  return query;
+}
+
+function logRecord(row: any) {
+  return {
+    id: row.id,
+    timestamp: `${String(row.timestamp).replace(' ', 'T')}Z`,
+    level: row.level,
+    category: row.category,
+    userId: row.user_id,
+    workspaceId: row.workspace_id,
+    productId: row.product_id,
+    message: row.message,
+    context: row.context ? JSON.parse(row.context) : null
+  };
+}
+
+function csvField(value: unknown) {
+  let text = value === null || value === undefined ? "" : typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Spreadsheet apps evaluate cells starting with these as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+app.get("/api/logs", (req, res) => {
+  console.log("GET /api/logs");
+  const query = dashboardLogQuery(req, res);
+  if (!query) return;
+  try {
+    const pageSize = Math.min(Math.max(parseInt(String(req.query.pageSize)) || 50, 1), 200);
+    const total = countLogs(query);
+    const totalPages = Math.max(1, Math.ceil(total / pageSize));
+    const page = Math.min(Math.max(parseInt(String(req.query.page)) || 1, 1), totalPages);
+    res.json({ total, page, pageSize, totalPages, logs: findLogs(query, pageSize, (page - 1) * pageSize).map(logRecord) });
+  } catch (error) {
+    logError("Logs API Error", error, "system", res.locals.userId);
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// Same filters as /api/logs; format=csv (default) or json, newest first, up to LOG_EXPORT_MAX records
+app.get("/api/logs/export", (req, res) => {
+  console.log("GET /api/logs/export");
+  const format = String(req.query.format || "csv");
+  if (format !== "csv" && format !== "json") {
+    return res.status(400).json({ error: "format must be csv or json" });
+  }
+  const query = dashboardLogQuery(req, res);
+  if (!query) return;
+  try {
+    const records = findLogs(query, LOG_EXPORT_MAX).map(logRecord);
+    const fileName = `logs-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    if (format === "json") {
+      return res.type("application/json").send(JSON.stringify(records, null, 2));
+    }
+    const columns = ["id", "timestamp", "level", "category", "userId", "workspaceId", "productId", "message", "context"] as const;
+    const lines = [columns.join(","), ...records.map(record => columns.map(column => csvField(record[column])).join(","))];
+    res.type("text/csv").send("\ufeff" + lines.join("\r\n") + "\r\n");
+  } catch (error) {
+    logError("Logs Export API Error", error, "system", res.locals.userId);
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+app.get("/api/stats", (req, res) => {
+  console.log("GET /api/stats");
+  try {
+    const stats = db.prepare("SELECT count(*) as count, status FROM monitors WHERE user_id = ? AND workspace_id IS NULL GROUP BY status").all(res.locals.userId);
+    res.json(stats);
+  } catch (error) {
+    logError("Stats API Error", error, "monitor", res.locals.userId);
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// Monitor management for the dashboard - the user's personal monitors, with the same checks as the Telegram commands
+function monitorSummary(monitor: any) {
+  const rules = getMonitorRules(monitor.id);
+  const buyRule = rules.find(rule => rule.enabled && rule.action !== 'notify');
+  const schedules = db.prepare("SELECT * FROM schedules WHERE monitor_id = ? ORDER BY id").all(monitor.id) as any[];
+  return {
+    id: monitor.id,
+    productId: monitor.product_id,
+    productName: monitor.product_name,
+    provider: monitor.provider,
+    url: monitor.url,
+    status: monitor.status,
+    lastAmount: monitor.last_amount,
+    lastPrice: monitor.last_price,
+    maxPrice: monitor.max_price,
+    priceAlert: !!monitor.price_alert,
+    account: monitor.account_id ? getAccount(monitorAccountOwner(monitor), monitor.account_id)?.label || null : null,
+    autoBuy: {
+      enabled: !!buyRule,
+      amount: buyRule?.quantity || 1,
+      limit: buyRule?.buy_limit || 0,
+      bought: buyRule?.bought_count || 0
+    },
+    ruleCount: rules.length,
+    schedules: schedules.map(schedule => ({
+      id: schedule.id,
+      cron: schedule.cron,
+      recurring: !!schedule.recurring,
+      amount: schedule.amount,
+      limit: schedule.buy_limit,
+      endTime: schedule.end_time,
+      nextRun: schedule.next_run,
+      running: !!schedule.end_at
+    }))
+  };
+}
+
+function findDashboardMonitor(req: express.Request, res: express.Response) {
+  const monitor = db.prepare("SELECT * FROM monitors WHERE id = ? AND user_id = ? AND workspace_id IS NULL").get(req.params.id, res.locals.userId) as any;
+  if (!monitor) res.status(404).json({ error: "Monitor not found" });
+  return monitor;
+}
+
+function parseCount(value: any, fallback: number) {
+  const count = parseInt(String(value ?? ""));
+  return isNaN(count) ? fallback : count;
+}
+
+app.get("/api/monitors", (req, res) => {
+  console.log("GET /api/monitors");
+  try {
+    const monitors = db.prepare("SELECT * FROM monitors WHERE user_id = ? AND workspace_id IS NULL ORDER BY id").all(res.locals.userId) as any[];
+    res.json(monitors.map(monitorSummary));
+  } catch (error) {
+    logError("Monitors API Error", error, "monitor", res.locals.userId);
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+app.post("/api/monitors", async (req, res) => {
+  console.log("POST /api/monitors");
+  const userId = res.locals.userId as string;
+  const productId = String(req.body?.productId || "").trim();
+  if (!productId) return res.status(400).json({ error: "productId is required" });
+  const user = getUser(userId);
+  if (!user) return res.status(400).json({ error: "No shop account, use /login in Telegram first" });
+
+  try {
+    const data = await getCachedAPI(user.username, user.password, user.provider);
+    const product = findProductInCategories(data.categories || [], productId, user.provider);
+    if (!product) return res.status(404).json({ error: `Không tìm thấy sản phẩm ID ${productId} trên shop.` });
+
+    const monitorId = createMonitor(personalScope(userId), user.chat_id, user, product);
+    if (monitorId === null) return res.status(409).json({ error: `Sản phẩm ${product.name} (ID: ${product.id}) đã có trong danh sách theo dõi.` });
+    log(`Thêm theo dõi ID ${productId}`, userId, null, { category: "monitor", productId });
+    res.status(201).json(monitorSummary(db.prepare("SELECT * FROM monitors WHERE id = ?").get(monitorId)));
+  } catch (error) {
+    logError("Create Monitor API Error", error, "monitor", userId, { productId });
+    res.status(500).json({ error: "Failed to fetch external API" });
+  }
+});
+
+app.delete("/api/monitors/:id", (req, res) => {
+  console.log(`DELETE /api/monitors/${req.params.id}`);
+  const monitor = findDashboardMonitor(req, res);
+  if (!monitor) return;
+  removeMonitor(monitor.id);
+  log(`Dừng theo dõi ID ${monitor.product_id}`, res.locals.userId, null, { category: "monitor", productId: monitor.product_id });
+  res.json({ ok: true });
+});
+
+app.put("/api/monitors/:id/autobuy", async (req, res) => {
+  console.log(`PUT /api/monitors/${req.params.id}/autobuy`);
+  const userId = res.locals.userId as string;
+  const monitor = findDashboardMonitor(req, res);
+  if (!monitor) return;
+
+  const enabled = !!req.body?.enabled;
+  const amount = parseCount(req.body?.amount, 1);
+  const limit = parseCount(req.body?.limit, 0);
+  const maxPrice = req.body?.maxPrice !== undefined && req.body?.maxPrice !== null ? parseCurrency(String(req.body.maxPrice)) : undefined;
+  if (amount < 1 || limit < 0) return res.status(400).json({ error: "amount must be at least 1 and limit cannot be negative" });
+
+  if (enabled) {
+    const account = getMonitorAccount(monitor) || getUser(userId);
+    if (!account) return res.status(400).json({ error: "No shop account, use /login in Telegram first" });
+    try {
+      const check = await checkAutoBuyFunds(account, monitor, amount, limit);
+      if (check.error) return res.status(400).json({ error: check.error });
+      if (check.shortfall) return res.status(402).json({ error: "Không đủ số dư để bật Auto-buy", shortfall: check.shortfall });
+    } catch (error) {
+      logError("Autobuy API Balance Check Error", error, "buy", userId, { productId: monitor.product_id });
+      return res.status(502).json({ error: "Đã xảy ra lỗi khi kiểm tra số dư. Vui lòng thử lại sau." });
+    }
+  }
+
+  setMonitorAutoBuy(monitor.id, userId, enabled, amount, limit, maxPrice);
+  log(`Cập nhật Auto-buy cho ID ${monitor.product_id}: ${enabled ? "Bật" : "Tắt"} (SL: ${amount}, Giới hạn: ${limit || "Không"})`, userId, null, { category: "buy", productId: monitor.product_id });
+  res.json(monitorSummary(db.prepare("SELECT * FROM monitors WHERE id = ?").get(monitor.id)));
+});
+
+// Body: { time: "HH:mm" | cron, amount, limit, daily?, days?: "1-5", until?: "HH:mm" } - same options as /schedule
+app.post("/api/monitors/:id/schedules", async (req, res) => {
+  console.log(`POST /api/monitors/${req.params.id}/schedules`);
+  const userId = res.locals.userId as string;
+  const monitor = findDashboardMonitor(req, res);
+  if (!monitor) return;
+
+  const body = req.body || {};
+  const args = [String(parseCount(body.amount, 1)), String(parseCount(body.limit, 0))];
+  if (body.daily) args.push("daily");
+  if (body.days) args.push(`days=${body.days}`);
+  if (body.until) args.push(`until=${body.until}`);
+  const { spec, error } = parseScheduleArgs(String(body.time || "").trim(), args);
+  if (!spec) return res.status(400).json({ error });
+
+  const account = getMonitorAccount(monitor) || getUser(userId);
+  if (!account) return res.status(400).json({ error: "No shop account, use /login in Telegram first" });
+  try {
+    const check = await checkAutoBuyFunds(account, monitor, spec.amount, spec.limit);
+    if (check.error) return res.status(400).json({ error: check.error });
+    if (check.shortfall) return res.status(402).json({ error: "Không đủ số dư để hẹn giờ Auto-buy", shortfall: check.shortfall });
+  } catch (error) {
+    logError("Schedule API Balance Check Error", error, "buy", userId, { productId: monitor.product_id });
+    return res.status(502).json({ error: "Đã xảy ra lỗi khi kiểm tra số dư. Vui lòng thử lại sau." });
+  }
+
+  const scheduleId = createSchedule(monitor.id, userId, spec);
+  log(`Hẹn giờ Auto-buy #${scheduleId} cho ID ${monitor.product_id} theo lịch \`${spec.cronExpr}\` (SL: ${spec.amount}, Giới hạn: ${spec.limit || "Không"})`, userId, null, { category: "buy", productId: monitor.product_id });
+  res.status(201).json(monitorSummary(monitor));
+});
+
+app.delete("/api/schedules/:id", (req, res) => {
+  console.log(`DELETE /api/schedules/${req.params.id}`);
+  const userId = res.locals.userId as string;
+  const schedule = db.prepare(`
+    SELECT s.* FROM schedules s JOIN monitors m ON m.id = s.monitor_id
+    WHERE s.id = ? AND m.user_id = ? AND m.workspace_id IS NULL
+  `).get(req.params.id, userId) as any;
+  if (!schedule) return res.status(404).json({ error: "Schedule not found" });
+  cancelSchedule(schedule);
+  log(`Huỷ lịch hẹn giờ #${schedule.id}`, userId, null, { category: "buy" });
+  res.json({ ok: true });
+});
+
+// Catalog explorer: the session user's cached catalog flattened, then filtered, sorted and paginated here
+interface CatalogRow {
+  id: string;
+  name: string;
+  category: string;
+  categoryIndex: number;
+  price: number;
+  priceText: string;
+  amount: number;
+  monitored: boolean;
+}
+
+const CATALOG_SORTS: { [key: string]: (a: CatalogRow, b: CatalogRow) => number } = {
+  price_asc: (a, b) => a.price - b.price,
+  price_desc: (a, b) => b.price - a.price,
+  stock_asc: (a, b) => a.amount - b.amount,
+  stock_desc: (a, b) => b.amount - a.amount,
+  name: (a, b) => a.name.localeCompare(b.name, 'vi')
+};
+
+app.get("/api/catalog", async (req, res) => {
+  console.log("GET /api/catalog");
+  const account = dashboardAccount(req, res);
+  if (!account) return;
+  const sort = String(req.query.sort || "default");
+  if (sort !== "default" && !CATALOG_SORTS[sort]) {
+    return res.status(400).json({ error: `sort must be one of default, ${Object.keys(CATALOG_SORTS).join(", ")}` });
+  }
+
+  try {
+    const data = await getCachedAPI(account.username, account.password, account.provider);
+    const categories: any[] = data.categories || [];
+    const monitored = new Set((db.prepare("SELECT product_id FROM monitors WHERE user_id = ? AND workspace_id IS NULL AND provider = ?")
+      .all(account.user_id, account.provider) as any[]).map(row => String(row.product_id)));
+
+    // With a search query the rows come in relevance order, otherwise in catalog order
+    const q = String(req.query.q || "").trim();
+    const rows: CatalogRow[] = q
+      ? searchCatalog(categories, q, Number.MAX_SAFE_INTEGER).map(result => ({
+          id: result.id,
+          name: result.name,
+          category: result.category,
+          categoryIndex: result.categoryIndex,
+          price: parseCurrency(result.price),
+          priceText: String(result.price),
+          amount: result.amount,
+          monitored: monitored.has(result.id)
+        }))
+      : categories.flatMap((cat, categoryIndex) => (cat.accounts || []).map((product: any) => ({
+          id: String(product.id),
+          name: product.name || `Sản phẩm ${product.id}`,
+          category: cat.name || `Category ${cat.id}`,
+          categoryIndex,
+          price: parseCurrency(product.price),
+          priceText: String(product.price ?? "N/A"),
+          amount: parseInt(product.amount) || 0,
+          monitored: monitored.has(String(product.id))
+        })));
+
+    const categoryFilter = req.query.category !== undefined && req.query.category !== "" ? parseInt(String(req.query.category)) : null;
+    const filtered = rows.filter(row => categoryFilter === null || row.categoryIndex === categoryFilter);
+    if (sort !== "default") filtered.sort(CATALOG_SORTS[sort]);
+
+    const pageSize = Math.min(Math.max(parseInt(String(req.query.pageSize)) || 25, 1), 100);
+    const totalPages = Math.max(1, Math.ceil(filtered.length / pageSize));
+    const page = Math.min(Math.max(parseInt(String(req.query.page)) || 1, 1), totalPages);
+
+    res.json({
+      account: account.label,
+      shop: getShopProvider(account.provider).name,
+      categories: categories.map((cat, index) => ({
+        index,
+        name: cat.name || `Category ${cat.id}`,
+        count: (cat.accounts || []).length,
+        inStock: (cat.accounts || []).filter((product: any) => (parseInt(product.amount) || 0) > 0).length
+      })),
+      total: filtered.length,
+      page,
+      pageSize,
+      totalPages,
+      products: filtered.slice((page - 1) * pageSize, page * pageSize)
+    });
+  } catch (error) {
+    logError("Catalog API Error", error, "scan", res.locals.userId);
+    res.status(500).json({ error: "Failed to fetch external API" });
+  }
+});
+
+app.get("/api/external-list", async (req, res) => {
+  console.log("GET /api/external-list");
+  const account = dashboardAccount(req, res);
+  if (!account) return;
+  try {
+    const data = await getCachedAPI(account.username, account.password, account.provider);
+    res.json(data);
+  } catch (error) {
+    logError("External List API Error", error, "scan", res.locals.userId);
+    res.status(500).json({ error: "Failed to fetch external API" });
+  }
+});
+
+app.get("/api/search", async (req, res) => {
+  console.log("GET /api/search");
+  const { q } = req.query;
+  if (!q || !String(q).trim()) {
+    return res.status(400).json({ error: "Query parameter q is required" });
+  }
+  const account = dashboardAccount(req, res);
+  if (!account) return;
+  try {
+    const data = await getCachedAPI(account.username, account.password, account.provider);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit)) || 20, 1), 100);
+    res.json({ query: String(q), results: searchCatalog(data.categories || [], String(q), limit) });
+  } catch (error) {
+    logError("Search API Error", error, "scan", res.locals.userId);
+    res.status(500).json({ error: "Failed to fetch external API" });
+  }
+});
+
+app.get("/api/history/:productId", (req, res) => {
+  console.log(`GET /api/history/${req.params.productId}`);
+  const rangeKey = String(req.query.range || "24h");
+  const provider = req.query.provider ? String(req.query.provider) : (getUser(res.locals.userId)?.provider || DEFAULT_SHOP_PROVIDER);
+  if (!HISTORY_RANGES[rangeKey]) {
+    return res.status(400).json({ error: "Range must be 24h or 7d" });
+  }
+  try {
+    const history = getStockHistory(provider, req.params.productId, HISTORY_RANGES[rangeKey]);
+    res.json({ productId: req.params.productId, provider, range: rangeKey, ...history });
+  } catch (error) {
+    logError("History API Error", error, "scan", res.locals.userId, { productId: req.params.productId });
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// Bot Setup
+const BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
+if (!BOT_TOKEN) {
+  console.warn("TELEGRAM_BOT_TOKEN is not set in environment variables.");
+}
+
+// Counts failed message sends for /metrics. Installed as bot.telegram, which every notification, report and
+// alert goes through; replies inside handlers use Telegraf's per-update client and aren't counted.
+class InstrumentedTelegram extends Telegram {
+  async callApi<M extends Parameters<Telegram["callApi"]>[0]>(method: M, payload: Opts<M>, options?: Parameters<Telegram["callApi"]>[2]) {
+    try {
+      return await super.callApi(method, payload, options);
+    } catch (error) {
+      if (/^(send|edit|copy|forward)/.test(method)) {
+        const code = error instanceof TelegramError ? String(error.code) : "network";
+        incMetric("shopbot_telegram_send_failures_total", { method, code });
+      }
+      throw error;
+    }
+  }
+}
+
+const bot = new Telegraf(BOT_TOKEN || "DUMMY_TOKEN");
+bot.telegram = new InstrumentedTelegram(BOT_TOKEN || "DUMMY_TOKEN", bot.telegram.options);
+
+// Telegram user IDs allowed to run admin commands: ADMIN_USER_IDS=123456,789012
+const ADMIN_USER_IDS = new Set((process.env.ADMIN_USER_IDS || "").split(",").map(id => id.trim()).filter(Boolean));
+
+function isAdmin(userId: string) {
+  return ADMIN_USER_IDS.has(userId);
+}
+
+function isBlocked(userId: string) {
+  return !!db.prepare("SELECT 1 FROM blocked_users WHERE user_id = ?").get(userId);
+}
+
+// Rate Limiter Middleware
+const userLastAction = new Map<string, number>();
+const RATE_LIMIT_MS = 1500; // 1.5 seconds
+
+bot.use(async (ctx, next) => {
+  const userId = ctx.from?.id?.toString();
+  if (userId) {
+    const now = Date.now();
+    const lastAction = userLastAction.get(userId) || 0;
+    
+    if (now - lastAction < RATE_LIMIT_MS) {
+      // Only warn if they haven't been warned in the last 1 second to avoid spam
+      if (now - lastAction > RATE_LIMIT_MS - 1000) {
+        try {
+          if (ctx.callbackQuery) {
+            await ctx.answerCbQuery("⏳ Vui lòng thao tác chậm lại!", { show_alert: true });
+          } else {
+            await ctx.reply("⏳ Bạn đang thao tác quá nhanh. Vui lòng chờ 1.5s giữa các lệnh.");
+          }
+        } catch(e) {}
+      }
+      return; // Stop processing this request
+    }
+    userLastAction.set(userId, now);
+  }
+  return next();
+});
+
+// Blocked users are turned away; everyone else's last activity is recorded for /admin users
+bot.use(async (ctx, next) => {
+  const userId = ctx.from?.id?.toString();
+  if (!userId) return next();
+
+  if (isBlocked(userId) && !isAdmin(userId)) {
+    try {
+      if (ctx.callbackQuery) {
+        await ctx.answerCbQuery("⛔ Tài khoản của bạn đã bị khoá.", { show_alert: true });
+      } else if (ctx.chat?.type === "private") {
+        await ctx.reply("⛔ Tài khoản của bạn đã bị quản trị viên khoá, không thể sử dụng bot.");
+      }
+    } catch (e) {}
+    return;
+  }
+
+  // Minute precision is plenty for /admin users and saves a write per update
+  db.prepare("UPDATE users SET last_active = CURRENT_TIMESTAMP WHERE user_id = ? AND (last_active IS NULL OR last_active < datetime('now', '-1 minute'))").run(userId);
+  return next();
+});
+
+// Shop Providers - every storefront running the same PHP API (ListResource/GetBalance/BResource)
+interface ShopCatalog {
+  categories?: any[];
+  [key: string]: any;
+}
+
+interface ShopPurchaseResponse {
+  status?: string;
+  message?: string;
+  data?: any;
+  [key: string]: any;
+}
+
+interface ShopProvider {
+  id: string;
+  name: string;
+  baseUrl: string;
+  listCatalog(username: string, password: string): Promise<ShopCatalog>;
+  // The API returns a plain string like "116.565đ"
+  getBalance(username: string, password: string): Promise<any>;
+  purchase(username: string, password: string, productId: string, amount: number | string): Promise<ShopPurchaseResponse>;
+  productUrl(productId: string): string;
+  categoryUrl(categoryId: string): string;
+}
+
+function createCompatibleShopProvider(id: string, name: string, baseUrl: string): ShopProvider {
+  const root = baseUrl.replace(/\/+$/, "");
+  const callApi = async (endpoint: string, params: Record<string, string | number>) => {
+    const labels = { provider: id, endpoint };
+    const started = Date.now();
+    try {
+      const response = await axiosInstance.get(`${root}/api/${endpoint}`, { params });
+      recordUpstream(id, endpoint);
+      return response.data;
+    } catch (error: any) {
+      incMetric("shopbot_upstream_errors_total", { ...labels, code: String(error.response?.status || error.code || "unknown") });
+      recordUpstream(id, endpoint, error);
+      throw error;
+    } finally {
+      observeMetric("shopbot_upstream_request_duration_seconds", labels, (Date.now() - started) / 1000);
+    }
+  };
+
+  return {
+    id,
+    name,
+    baseUrl: root,
+    listCatalog: (username, password) => callApi("ListResource.php", { username, password }),
+    getBalance: (username, password) => callApi("GetBalance.php", { username, password }),
+    purchase: (username, password, productId, amount) => callApi("BResource.php", { username, password, id: productId, amount }),
+    productUrl: (productId) => `${root}/product/${productId}`,
+    categoryUrl: (categoryId) => `${root}/category/${categoryId}`,
+  };
+}
+
+const DEFAULT_SHOP_PROVIDER = "saidiait";
+// SHOP_BASE_URL repoints the default shop, e.g. at the bundled simulator (http://localhost:3000/simulator)
+const SHOP_BASE_URL = process.env.SHOP_BASE_URL || "https://shop.saidiait.top";
+const shopProviders = new Map<string, ShopProvider>();
+shopProviders.set(DEFAULT_SHOP_PROVIDER, createCompatibleShopProvider(DEFAULT_SHOP_PROVIDER, "Saidiait Shop", SHOP_BASE_URL));
+
+// Extra shops: SHOP_PROVIDERS=shopb=https://shop-b.example,shopc=https://shop-c.example
+for (const entry of (process.env.SHOP_PROVIDERS || "").split(",")) {
+  const [id, url] = entry.split("=").map(s => s?.trim());
+  if (!id || !url) continue;
+  shopProviders.set(id, createCompatibleShopProvider(id, id, url));
+}
+
+function getShopProvider(providerId?: string | null): ShopProvider {
+  const provider = shopProviders.get(providerId || DEFAULT_SHOP_PROVIDER);
+  if (!provider) {
+    throw new Error(`Shop provider không tồn tại: ${providerId}`);
+  }
+  return provider;
+}
+
+// Local Shop Simulator - mirrors the shop API so /monitor, /autobuy and /schedule can be tested without real money
+const SHOP_SIMULATOR_ENABLED = process.env.SHOP_SIMULATOR === "true";
+
+interface SimulatorProduct {
+  id: number;
+  name: string;
+  price: number;
+  amount: number;
+}
+
+interface SimulatorAccount {
+  password: string;
+  balance: number;
+}
+
+function createSimulatorCatalog() {
+  return [
+    {
+      id: 1,
+      name: "Azeem",
+      accounts: [
+        { id: 21, name: "Azeem Account Loại 1", price: 5000, amount: 0 },
+        { id: 78, name: "Azeem Account Loại 2", price: 8000, amount: 3 },
+        { id: 108, name: "Azeem Account VIP", price: 15000, amount: 0 },
+      ] as SimulatorProduct[]
+    },
+    {
+      id: 2,
+      name: "Tài khoản khác",
+      accounts: [
+        { id: 201, name: "Gmail Cổ", price: 3000, amount: 25 },
+      ] as SimulatorProduct[]
+    }
+  ];
+}
+
+const simulator = {
+  categories: createSimulatorCatalog(),
+  accounts: new Map<string, SimulatorAccount>([["demo", { password: "demo", balance: 116565 }]]),
+  // Scripted failures consumed by the next BResource.php calls, e.g. "Số dư không đủ"
+  failures: [] as string[],
+  transCounter: 1000
+};
+
+const formatSimulatorMoney = (value: number) => `${value.toLocaleString('vi-VN')}đ`;
+
+function findSimulatorProduct(productId: string) {
+  for (const cat of simulator.categories) {
+    const product = cat.accounts.find(p => String(p.id) === String(productId));
+    if (product) return product;
+  }
+  return null;
+}
+
+function getSimulatorAccount(username: any, password: any) {
+  const account = simulator.accounts.get(String(username));
+  if (!account || account.password !== String(password)) return null;
+  return account;
+}
+
+function applySimulatorAction(action: any) {
+  switch (action.action) {
+    case "restock": {
+      const product = findSimulatorProduct(String(action.productId));
+      if (!product) throw new Error(`Không tìm thấy sản phẩm ${action.productId}`);
+      product.amount = Math.max(0, parseInt(action.amount) || 0);
+      return product;
+    }
+    case "price": {
+      const product = findSimulatorProduct(String(action.productId));
+      if (!product) throw new Error(`Không tìm thấy sản phẩm ${action.productId}`);
+      product.price = Math.max(0, parseInt(action.price) || 0);
+      return product;
+    }
+    case "balance": {
+      const existing = simulator.accounts.get(String(action.username));
+      const account = {
+        password: action.password !== undefined ? String(action.password) : (existing?.password || String(action.username)),
+        balance: Math.max(0, parseInt(action.balance) || 0)
+      };
+      simulator.accounts.set(String(action.username), account);
+      return { username: action.username, balance: formatSimulatorMoney(account.balance) };
+    }
+    case "fail": {
+      const times = Math.max(1, parseInt(action.times) || 1);
+      for (let i = 0; i < times; i++) simulator.failures.push(String(action.message || "Số dư không đủ"));
+      return { pending: simulator.failures.length };
+    }
+    case "reset": {
+      simulator.categories = createSimulatorCatalog();
+      simulator.accounts = new Map([["demo", { password: "demo", balance: 116565 }]]);
+      simulator.failures = [];
+      return { ok: true };
+    }
+    default:
+      throw new Error(`Hành động không hợp lệ: ${action.action}`);
+  }
+}
+
+if (SHOP_SIMULATOR_ENABLED) {
+  shopProviders.set("simulator", createCompatibleShopProvider("simulator", "Shop giả lập", `http://127.0.0.1:${PORT}/simulator`));
+
+  app.get("/simulator/api/ListResource.php", (req, res) => {
+    if (!getSimulatorAccount(req.query.username, req.query.password)) {
+      return res.json({ status: "error", message: "Tài khoản hoặc mật khẩu không chính xác" });
+    }
+    res.json({
+      categories: simulator.categories.map(cat => ({
+        id: cat.id,
+        name: cat.name,
+        accounts: cat.accounts.map(p => ({
+          id: p.id,
+          name: p.name,
+          price: formatSimulatorMoney(p.price),
+          amount: String(p.amount)
+        }))
+      }))
+    });
+  });
+
+  app.get("/simulator/api/GetBalance.php", (req, res) => {
+    const account = getSimulatorAccount(req.query.username, req.query.password);
+    if (!account) {
+      return res.json({ status: "error", message: "Tài khoản hoặc mật khẩu không chính xác" });
+    }
+    res.type("text/plain").send(formatSimulatorMoney(account.balance));
+  });
+
+  app.get("/simulator/api/BResource.php", (req, res) => {
+    const account = getSimulatorAccount(req.query.username, req.query.password);
+    if (!account) {
+      return res.json({ status: "error", message: "Tài khoản hoặc mật khẩu không chính xác" });
+    }
+
+    const scriptedFailure = simulator.failures.shift();
+    if (scriptedFailure) {
+      return res.json({ status: "error", message: scriptedFailure });
+    }
+
+    const product = findSimulatorProduct(String(req.query.id));
+    const amount = parseInt(String(req.query.amount)) || 0;
+    if (!product) {
+      return res.json({ status: "error", message: "Sản phẩm không tồn tại" });
+    }
+    if (amount <= 0) {
+      return res.json({ status: "error", message: "Số lượng không hợp lệ" });
+    }
+    if (product.amount < amount) {
+      return res.json({ status: "error", message: `Số lượng trong kho không đủ (còn ${product.amount})` });
+    }
+    const total = product.price * amount;
+    if (account.balance < total) {
+      return res.json({ status: "error", message: "Số dư không đủ để thanh toán" });
+    }
+
+    account.balance -= total;
+    product.amount -= amount;
+    const transId = `SIM${++simulator.transCounter}`;
+    const lists = Array.from({ length: amount }, (_, i) => ({
+      account: `sim_${product.id}_${transId.toLowerCase()}_${i + 1}@mail.test|Pass${Math.random().toString(36).slice(2, 10)}|recovery@mail.test`
+    }));
+
+    res.json({
+      status: "success",
+      message: "Mua hàng thành công",
+      data: { trans_id: transId, name: product.name, amount, lists }
+    });
+  });
+
+  // Scripted control: restock, price, balance, fail, reset
+  app.get("/simulator/control/state", (req, res) => {
+    res.json({
+      categories: simulator.categories,
+      accounts: Array.from(simulator.accounts.entries()).map(([username, acc]) => ({ username, balance: acc.balance })),
+      pendingFailures: simulator.failures
+    });
+  });
+
+  app.post("/simulator/control/:action", (req, res) => {
+    try {
+      res.json(applySimulatorAction({ ...req.body, action: req.params.action }));
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  // SHOP_SIMULATOR_SCRIPT=sim.json → [{ "at": 10, "action": "restock", "productId": 21, "amount": 5 }, ...] (at = seconds after start)
+  if (process.env.SHOP_SIMULATOR_SCRIPT) {
+    try {
+      const steps = JSON.parse(fs.readFileSync(process.env.SHOP_SIMULATOR_SCRIPT, "utf-8"));
+      for (const step of steps) {
+        setTimeout(() => {
+          try {
+            applySimulatorAction(step);
+            console.log(`[Simulator] Script: ${JSON.stringify(step)}`);
+          } catch (e) {
+            console.error("[Simulator] Script step failed:", e);
+          }
+        }, (Number(step.at) || 0) * 1000);
+      }
+      console.log(`[Simulator] Loaded ${steps.length} scripted steps`);
+    } catch (e) {
+      console.error("[Simulator] Failed to load script:", e);
+    }
+  }
+
+  console.log(`🧪 Shop simulator enabled at /simulator (login: demo / demo)`);
+}
+
+// Simple API Cache
 let apiCache: { [key: string]: { data: any, timestamp: number } } = {};
 const CACHE_TTL = 1500; // 1.5 seconds for faster stock detection
 const pendingRequests = new Map<string, Promise<any>>();
@@ -244,81 +1882,1185 @@ setInterval(() => {
       deletedCount++;
     }
   }
-  if (deletedCount > 0) {
-    console.log(`[Memory GC] Đã dọn dẹp ${deletedCount} mục cache API cũ.`);
+  if (deletedCount > 0) {
+    console.log(`[Memory GC] Đã dọn dẹp ${deletedCount} mục cache API cũ.`);
+  }
+}, 60000);
+
+// Keep stock history and logs bounded (checked hourly)
+setInterval(() => {
+  try {
+    db.prepare("DELETE FROM dashboard_sessions WHERE expires_at < ?").run(Date.now());
+    const logsPruned = pruneLogs();
+    if (logsPruned > 0) {
+      console.log(`[Logs GC] Đã xoá ${logsPruned} bản ghi nhật ký cũ.`);
+    }
+    const result = db.prepare("DELETE FROM stock_history WHERE recorded_at < ?").run(Date.now() - HISTORY_RETENTION_MS);
+    if (result.changes > 0) {
+      console.log(`[History GC] Đã xoá ${result.changes} bản ghi lịch sử kho cũ.`);
+    }
+  } catch (e) {
+    logError("Failed to prune stock history", e, "system");
+  }
+}, 60 * 60 * 1000);
+
+async function getCachedAPI(username: string, password: string, providerId: string = DEFAULT_SHOP_PROVIDER) {
+  const provider = getShopProvider(providerId);
+  const cacheKey = `${provider.id}:${username}:${password}`;
+  if (apiCache[cacheKey] && (Date.now() - apiCache[cacheKey].timestamp < CACHE_TTL)) {
+    incMetric("shopbot_catalog_cache_requests_total", { result: "hit" });
+    return apiCache[cacheKey].data;
+  }
+  
+  if (pendingRequests.has(cacheKey)) {
+    incMetric("shopbot_catalog_cache_requests_total", { result: "deduped" });
+    return pendingRequests.get(cacheKey);
+  }
+  
+  incMetric("shopbot_catalog_cache_requests_total", { result: "miss" });
+  const fetchPromise = (async () => {
+    try {
+      const data = await provider.listCatalog(username, password);
+      apiCache[cacheKey] = {
+        data,
+        timestamp: Date.now()
+      };
+      detectCatalogChanges(provider.id, cacheKey, data).catch(e => logError("Catalog diff error", e, "scan"));
+      return data;
+    } catch (error) {
+      logError("API Fetch Error", error, "scan", null, { context: { provider: provider.id } });
+      // Return stale cache if available on error
+      if (apiCache[cacheKey]) return apiCache[cacheKey].data;
+      throw error;
+    } finally {
+      pendingRequests.delete(cacheKey);
+    }
+  })();
+  
+  pendingRequests.set(cacheKey, fetchPromise);
+  return fetchPromise;
+}
+
+async function getBalance(username: string, password: string, providerId: string = DEFAULT_SHOP_PROVIDER) {
+  try {
+    return await getShopProvider(providerId).getBalance(username, password);
+  } catch (error) {
+    logError("Get Balance Error", error, "buy", null, { context: { provider: providerId } });
+    return null;
+  }
+}
+
+// Helper to find product in categories
+function findProductInCategories(categories: any[], productId: string, providerId: string = DEFAULT_SHOP_PROVIDER) {
+  const provider = getShopProvider(providerId);
+  for (const cat of categories) {
+    if (String(cat.id) === String(productId)) {
+      return {
+        id: String(cat.id),
+        name: cat.name || `Category ${cat.id}`,
+        url: provider.categoryUrl(String(cat.id)),
+        price: "N/A",
+        amount: "0",
+        raw: cat
+      };
+    }
+    const products = cat.accounts || [];
+    const product = products.find((p: any) => String(p.id) === String(productId));
+    if (product) {
+      return {
+        id: String(product.id),
+        name: product.name || `Sản phẩm ${product.id}`,
+        url: provider.productUrl(String(product.id)),
+        price: product.price || "N/A",
+        amount: product.amount || "0",
+        raw: product
+      };
+    }
+  }
+  return null;
+}
+
+// Catalog Change Detection
+interface CatalogChange {
+  type: "added" | "removed" | "renamed" | "price";
+  productId: string;
+  name: string;
+  category: string;
+  categoryIndex: number;
+  before?: string;
+  after?: string;
+  amount?: number;
+}
+
+const CATALOG_CHANGE_LABELS: { [key in CatalogChange["type"]]: string } = {
+  added: "🆕 Sản phẩm mới",
+  removed: "❌ Đã gỡ khỏi shop",
+  renamed: "✏️ Đổi tên",
+  price: "💲 Đổi giá"
+};
+// Keep a single notification readable even when a whole category is added at once
+const MAX_CATALOG_CHANGES_PER_MESSAGE = 30;
+// One account's fetches feed each provider's snapshot - diffing every user's fetch against it would report
+// account-specific prices or listings as catalog changes. Another account takes over once it goes quiet.
+const CATALOG_SOURCE_HANDOVER_MS = 60 * 1000;
+const catalogDiffSources = new Map<string, { cacheKey: string; lastSeen: number }>();
+
+function diffCatalog(providerId: string, categories: any[]) {
+  const previous = new Map<string, any>();
+  for (const row of db.prepare("SELECT * FROM catalog_snapshot WHERE provider = ?").all(providerId) as any[]) {
+    previous.set(row.product_id, row);
+  }
+
+  const changes: CatalogChange[] = [];
+  const seen = new Set<string>();
+  categories.forEach((cat, categoryIndex) => {
+    for (const product of cat.accounts || []) {
+      const id = String(product.id);
+      const name = String(product.name ?? "");
+      const category = String(cat.name ?? "");
+      const price = String(product.price ?? "");
+      seen.add(id);
+      const old = previous.get(id);
+      const base = { productId: id, name, category, categoryIndex, amount: parseInt(product.amount) || 0 };
+      if (!old) {
+        changes.push({ type: "added", ...base });
+        continue;
+      }
+      if (old.name !== name) changes.push({ type: "renamed", ...base, before: old.name, after: name });
+      if (old.price !== price) changes.push({ type: "price", ...base, before: old.price, after: price });
+    }
+  });
+  for (const [id, old] of previous) {
+    if (!seen.has(id)) changes.push({ type: "removed", productId: id, name: old.name, category: old.category, categoryIndex: -1 });
+  }
+
+  return { changes, isFirstSnapshot: previous.size === 0 };
+}
+
+function saveCatalogSnapshot(providerId: string, categories: any[]) {
+  // Duplicate IDs across categories keep the last one, like the diff above
+  const insert = db.prepare("INSERT OR REPLACE INTO catalog_snapshot (provider, product_id, category, name, price) VALUES (?, ?, ?, ?, ?)");
+  db.transaction(() => {
+    db.prepare("DELETE FROM catalog_snapshot WHERE provider = ?").run(providerId);
+    for (const cat of categories) {
+      for (const product of cat.accounts || []) {
+        insert.run(providerId, String(product.id), String(cat.name ?? ""), String(product.name ?? ""), String(product.price ?? ""));
+      }
+    }
+  })();
+}
+
+function catalogChangeMatches(change: CatalogChange, subscription: any) {
+  if (subscription.category_filter && !normalizeSearchText(change.category).includes(normalizeSearchText(subscription.category_filter))) {
+    return false;
+  }
+  if (subscription.keyword_filter) {
+    const words = normalizeSearchText(`${change.name} ${change.before || ""} ${change.category}`).split(" ");
+    return normalizeSearchText(subscription.keyword_filter).split(" ").filter(Boolean).every(token => matchToken(token, words) > 0);
+  }
+  return true;
+}
+
+function formatCatalogChanges(changes: CatalogChange[]) {
+  let message = "🛍 **Danh mục shop vừa thay đổi:**\n";
+  for (const type of Object.keys(CATALOG_CHANGE_LABELS) as CatalogChange["type"][]) {
+    const items = changes.filter(change => change.type === type);
+    if (items.length === 0) continue;
+    message += `\n${CATALOG_CHANGE_LABELS[type]} (${items.length}):\n`;
+    for (const change of items) {
+      if (type === "added") message += `• #${change.productId} ${change.name} - ${change.category} | 📦 ${change.amount}\n`;
+      else if (type === "removed") message += `• #${change.productId} ${change.name} - ${change.category}\n`;
+      else message += `• #${change.productId} ${type === "renamed" ? "" : `${change.name}: `}${change.before} → ${change.after}\n`;
+    }
+  }
+  return message;
+}
+
+// Called after every fresh catalog fetch; the first snapshot of a shop, and the first one after the source
+// account changes, is stored silently
+async function detectCatalogChanges(providerId: string, cacheKey: string, data: any) {
+  const categories = Array.isArray(data?.categories) ? data.categories : null;
+  // Error responses and empty catalogs would look like "everything was removed"
+  if (!categories || categories.length === 0) return;
+
+  const now = Date.now();
+  const source = catalogDiffSources.get(providerId);
+  if (source && source.cacheKey !== cacheKey && now - source.lastSeen < CATALOG_SOURCE_HANDOVER_MS) return;
+  catalogDiffSources.set(providerId, { cacheKey, lastSeen: now });
+  const handover = !!source && source.cacheKey !== cacheKey;
+
+  const { changes, isFirstSnapshot } = diffCatalog(providerId, categories);
+  if (changes.length === 0) return;
+  saveCatalogSnapshot(providerId, categories);
+  if (isFirstSnapshot || handover) return;
+
+  console.log(`[Catalog] ${providerId}: ${changes.length} changes`);
+  const subscriptions = db.prepare("SELECT * FROM catalog_subscriptions WHERE enabled = 1 AND user_id NOT IN (SELECT user_id FROM blocked_users)").all() as any[];
+  for (const subscription of subscriptions) {
+    const user = getUser(subscription.user_id);
+    if (!user || user.provider !== providerId) continue;
+
+    const matched = changes.filter(change => catalogChangeMatches(change, subscription)).slice(0, MAX_CATALOG_CHANGES_PER_MESSAGE);
+    if (matched.length === 0) continue;
+
+    // Quick monitor buttons for new listings, which usually sell out first
+    const keyboard = matched
+      .filter(change => change.type === "added")
+      .slice(0, 5)
+      .map(change => [{ text: `➕ Theo dõi #${change.productId}`, callback_data: `cat:m:${change.productId}:${change.categoryIndex}:0` }]);
+    try {
+      await bot.telegram.sendMessage(subscription.chat_id, formatCatalogChanges(matched),
+        keyboard.length > 0 ? { reply_markup: { inline_keyboard: keyboard } } : {}
+      );
+      log(`Gửi thông báo thay đổi danh mục (${matched.length} mục)`, subscription.user_id, null, { category: "scan" });
+    } catch (e) {
+      logError("Failed to send catalog changes", e, "telegram", subscription.user_id);
+    }
+  }
+}
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone suffix
+function formatDbTime(timestamp: string) {
+  return new Date(`${String(timestamp).replace(' ', 'T')}Z`).toLocaleString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' });
+}
+
+function parseCurrency(str: any) {
+  if (!str) return 0;
+  return parseFloat(String(str).replace(/[^\d]/g, '')) || 0;
+}
+
+// Turn a BResource.php response into the "user|pass" lines we deliver as a .txt file
+function extractPurchasedAccounts(data: ShopPurchaseResponse) {
+  const processAccount = (acc: string) => {
+    const parts = acc.split('|');
+    if (parts.length >= 2) {
+      return `${parts[0].trim()}|${parts[1].trim()}`;
+    }
+    return acc.trim();
+  };
+
+  if (data.data && Array.isArray(data.data.lists)) {
+    return data.data.lists.map((a: any) => {
+      if (a && typeof a === 'object' && a.account) return processAccount(String(a.account));
+      return JSON.stringify(a);
+    }).join("\n");
+  } else if (Array.isArray(data.data)) {
+    return data.data.map((a: any) => {
+      if (typeof a === 'string') return processAccount(a);
+      if (a && typeof a === 'object' && a.account) return processAccount(String(a.account));
+      return JSON.stringify(a);
+    }).join("\n");
+  } else if (typeof data.data === "string") {
+    return data.data.split('\n').filter((line: string) => line.trim() !== '').map(processAccount).join("\n");
+  }
+  return JSON.stringify(data, null, 2);
+}
+
+function getAccountFileName(data: ShopPurchaseResponse, productId: string) {
+  if (data.data && data.data.name && data.data.amount && data.data.trans_id) {
+    const safeName = String(data.data.name).replace(/[^a-zA-Z0-9]/g, '');
+    return `${safeName}_${data.data.amount}_${data.data.trans_id}.txt`;
+  }
+  return `accounts_${productId}_${Date.now()}.txt`;
+}
+
+interface OrderInput {
+  userId: string;
+  // Workspace the purchase was made for, null for personal purchases
+  workspaceId?: number | null;
+  chatId: string;
+  provider: string;
+  productId: string;
+  productName?: string;
+  quantity: number;
+  unitPrice: number;
+  source: "manual" | "auto";
+  response?: ShopPurchaseResponse;
+  error?: string;
+}
+
+// Every BResource.php call ends up here, successful or not, so delivered accounts can be re-sent later
+function recordOrder(order: OrderInput): number | null {
+  const response = order.response;
+  const success = response?.status === "success";
+  incMetric("shopbot_purchase_attempts_total", { source: order.source });
+  if (success) {
+    incMetric("shopbot_purchase_successes_total", { source: order.source });
+  } else {
+    const reason = response ? classifyPurchaseFailure(response.message || "").reason : "error";
+    incMetric("shopbot_purchase_failures_total", { source: order.source, reason });
+  }
+  try {
+    const info = db.prepare(`
+      INSERT INTO orders (user_id, chat_id, provider, product_id, product_name, quantity, unit_price, total_price, status, trans_id, message, accounts, file_name, raw_response, source, workspace_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      order.userId,
+      order.chatId,
+      order.provider,
+      order.productId,
+      order.productName || response?.data?.name || `ID ${order.productId}`,
+      order.quantity,
+      order.unitPrice,
+      order.unitPrice * order.quantity,
+      success ? "success" : (response ? "failed" : "error"),
+      response?.data?.trans_id ? String(response.data.trans_id) : null,
+      response?.message || order.error || null,
+      success ? extractPurchasedAccounts(response) : null,
+      success ? getAccountFileName(response, order.productId) : null,
+      response ? JSON.stringify(response) : null,
+      order.source,
+      order.workspaceId || null
+    );
+    return Number(info.lastInsertRowid);
+  } catch (e) {
+    logError("Failed to record order", e, "buy", order.userId, { productId: order.productId });
+    return null;
+  }
+}
+
+async function sendOrderFile(chatId: string, orderId: number) {
+  const order = db.prepare("SELECT * FROM orders WHERE id = ?").get(orderId) as any;
+  if (!order || !order.accounts) return false;
+  await bot.telegram.sendDocument(chatId, {
+    source: Buffer.from(order.accounts, 'utf-8'),
+    filename: order.file_name || `accounts_${order.product_id}_${order.id}.txt`
+  });
+  return true;
+}
+
+// Purchase Executor - the retry and step-down logic lives in lib/purchase.ts.
+// Every BResource.php call is recorded as its own order; the caller reports the combined result
+function executePurchase(user: any, order: OrderInput) {
+  const provider = getShopProvider(order.provider);
+  return runPurchase<ShopPurchaseResponse>(order.quantity, {
+    purchase: quantity => provider.purchase(user.username, user.password, order.productId, quantity),
+    record: (quantity, result) => recordOrder({ ...order, quantity, ...result }),
+    accounts: extractPurchasedAccounts
+  });
+}
+
+// Spending Budgets - period maths and the allowance check live in lib/budget.ts
+const BUDGET_LABELS: { [key in BudgetPeriod]: string } = {
+  daily: "Hôm nay",
+  weekly: "Tuần này",
+  monthly: "Tháng này"
+};
+// Last period a "budget exceeded" message was sent for, so a blocked monitor does not spam every 2s
+const budgetNotified = new Map<string, string>();
+
+function getBudgetStatus(userId: string): BudgetStatus[] {
+  const budget = db.prepare("SELECT * FROM budgets WHERE user_id = ?").get(userId) as any;
+  return BUDGET_PERIODS.map(period => {
+    const since = getPeriodStart(period);
+    const row = db.prepare("SELECT COALESCE(SUM(total_price), 0) as spent FROM orders WHERE user_id = ? AND status = 'success' AND created_at >= ?").get(userId, since) as any;
+    const limit = budget?.[period] || 0;
+    return {
+      period,
+      since,
+      limit,
+      spent: row.spent as number,
+      remaining: limit > 0 ? Math.max(0, limit - row.spent) : Infinity
+    };
+  });
+}
+
+// Spend held by auto-buys between their budget check and recordOrder; one user's account and workspace
+// monitor groups are scanned concurrently, so without this each could spend the same remaining budget
+const budgetReservations = new Map<string, number>();
+
+// Returns the release function, called once the purchase's orders are recorded
+function reserveBudget(userId: string, amount: number) {
+  budgetReservations.set(userId, (budgetReservations.get(userId) || 0) + amount);
+  return () => {
+    const left = (budgetReservations.get(userId) || 0) - amount;
+    if (left > 0) budgetReservations.set(userId, left);
+    else budgetReservations.delete(userId);
+  };
+}
+
+function getBudgetAllowance(userId: string, quantity: number, unitPrice: number) {
+  return budgetAllowance(getBudgetStatus(userId), budgetReservations.get(userId) || 0, quantity, unitPrice);
+}
+
+// Stock History - one row per observed change of stock or price
+const HISTORY_RANGES: { [key: string]: number } = {
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000
+};
+const HISTORY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+function recordStockSnapshot(providerId: string, productId: string, amount: number, price: number) {
+  try {
+    const last = db.prepare("SELECT amount, price FROM stock_history WHERE provider = ? AND product_id = ? ORDER BY recorded_at DESC LIMIT 1")
+      .get(providerId, productId) as any;
+    if (last && last.amount === amount && last.price === price) return;
+    db.prepare("INSERT INTO stock_history (provider, product_id, amount, price, recorded_at) VALUES (?, ?, ?, ?, ?)")
+      .run(providerId, productId, amount, price, Date.now());
+  } catch (e) {
+    logError("Failed to record stock history", e, "scan", null, { productId });
+  }
+}
+
+function getStockHistory(providerId: string, productId: string, rangeMs: number) {
+  const to = Date.now();
+  const from = to - rangeMs;
+  const rows = db.prepare("SELECT amount, price, recorded_at FROM stock_history WHERE provider = ? AND product_id = ? AND recorded_at >= ? ORDER BY recorded_at ASC")
+    .all(providerId, productId, from) as any[];
+  // Carry the state from before the window so the chart starts at the right level
+  const previous = db.prepare("SELECT amount, price, recorded_at FROM stock_history WHERE provider = ? AND product_id = ? AND recorded_at < ? ORDER BY recorded_at DESC LIMIT 1")
+    .get(providerId, productId, from) as any;
+
+  const points = rows.map(r => ({ amount: r.amount as number, price: r.price as number, timestamp: r.recorded_at as number }));
+  if (previous) points.unshift({ amount: previous.amount, price: previous.price, timestamp: from });
+
+  let restocks = 0;
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].amount > points[i - 1].amount) restocks++;
+  }
+  const amounts = points.map(p => p.amount);
+  const prices = points.map(p => p.price).filter(p => p > 0);
+
+  return {
+    from,
+    to,
+    points,
+    stats: {
+      minAmount: amounts.length > 0 ? Math.min(...amounts) : 0,
+      maxAmount: amounts.length > 0 ? Math.max(...amounts) : 0,
+      minPrice: prices.length > 0 ? Math.min(...prices) : 0,
+      maxPrice: prices.length > 0 ? Math.max(...prices) : 0,
+      restocks,
+      changes: rows.length
+    }
+  };
+}
+
+// Minimal PNG line chart renderer so /history does not need a native canvas dependency
+const CHART_FONT: { [char: string]: string[] } = {
+  "0": ["111", "101", "101", "101", "111"],
+  "1": ["010", "110", "010", "010", "111"],
+  "2": ["111", "001", "111", "100", "111"],
+  "3": ["111", "001", "111", "001", "111"],
+  "4": ["101", "101", "111", "001", "001"],
+  "5": ["111", "100", "111", "001", "111"],
+  "6": ["111", "100", "111", "101", "111"],
+  "7": ["111", "001", "001", "001", "001"],
+  "8": ["111", "101", "111", "101", "111"],
+  "9": ["111", "101", "111", "001", "111"],
+  ":": ["000", "010", "000", "010", "000"],
+  "/": ["001", "001", "010", "100", "100"],
+  "-": ["000", "000", "111", "000", "000"],
+  ".": ["000", "000", "000", "000", "010"],
+  " ": ["000", "000", "000", "000", "000"]
+};
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function encodePng(width: number, height: number, rgb: Buffer) {
+  const stride = width * 3;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0; // filter: none
+    rgb.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+  };
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: RGB
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", zlib.deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0))
+  ]);
+}
+
+function renderStockChartPng(points: { amount: number; timestamp: number }[], from: number, to: number, rangeKey: string) {
+  const width = 800, height = 400;
+  const left = 60, right = 20, top = 20, bottom = 50;
+  const plotWidth = width - left - right;
+  const plotHeight = height - top - bottom;
+  type Color = [number, number, number];
+  const background: Color = [245, 245, 240];
+  const grid: Color = [225, 225, 215];
+  const axis: Color = [140, 140, 120];
+  const line: Color = [90, 90, 64];
+  const rgb = Buffer.alloc(width * height * 3);
+
+  const fillRect = (x: number, y: number, w: number, h: number, color: Color) => {
+    for (let py = Math.max(0, y); py < Math.min(height, y + h); py++) {
+      for (let px = Math.max(0, x); px < Math.min(width, x + w); px++) {
+        const i = (py * width + px) * 3;
+        rgb[i] = color[0];
+        rgb[i + 1] = color[1];
+        rgb[i + 2] = color[2];
+      }
+    }
+  };
+  const drawLine = (x0: number, y0: number, x1: number, y1: number, color: Color, thickness = 1) => {
+    const dx = Math.abs(x1 - x0), dy = -Math.abs(y1 - y0);
+    const sx = x0 < x1 ? 1 : -1, sy = y0 < y1 ? 1 : -1;
+    let err = dx + dy;
+    while (true) {
+      fillRect(x0, y0, thickness, thickness, color);
+      if (x0 === x1 && y0 === y1) break;
+      const e2 = 2 * err;
+      if (e2 >= dy) { err += dy; x0 += sx; }
+      if (e2 <= dx) { err += dx; y0 += sy; }
+    }
+  };
+  const drawText = (text: string, x: number, y: number, color: Color, scale = 2) => {
+    for (const char of text) {
+      const glyph = CHART_FONT[char];
+      if (glyph) {
+        glyph.forEach((row, gy) => {
+          for (let gx = 0; gx < row.length; gx++) {
+            if (row[gx] === "1") fillRect(x + gx * scale, y + gy * scale, scale, scale, color);
+          }
+        });
+      }
+      x += 4 * scale;
+    }
+  };
+  const textWidth = (text: string, scale = 2) => text.length * 4 * scale - scale;
+
+  fillRect(0, 0, width, height, background);
+  fillRect(left, top, plotWidth, plotHeight, [255, 255, 255]);
+
+  const maxAmount = Math.max(1, ...points.map(p => p.amount));
+  const xOf = (t: number) => left + Math.round(((t - from) / Math.max(1, to - from)) * (plotWidth - 1));
+  const yOf = (v: number) => top + Math.round((1 - v / maxAmount) * (plotHeight - 1));
+
+  for (let i = 0; i <= 4; i++) {
+    const value = Math.round((maxAmount * i) / 4);
+    const y = yOf(value);
+    drawLine(left, y, left + plotWidth - 1, y, grid);
+    const label = String(value);
+    drawText(label, left - 8 - textWidth(label), y - 5, axis);
+  }
+  drawLine(left, top, left, top + plotHeight - 1, axis);
+  drawLine(left, top + plotHeight - 1, left + plotWidth - 1, top + plotHeight - 1, axis);
+
+  const formatTick = (t: number) => new Date(t).toLocaleString('en-GB', rangeKey === "7d"
+    ? { timeZone: 'Asia/Ho_Chi_Minh', day: '2-digit', month: '2-digit' }
+    : { timeZone: 'Asia/Ho_Chi_Minh', hour: '2-digit', minute: '2-digit', hour12: false });
+  for (let i = 0; i <= 4; i++) {
+    const t = from + ((to - from) * i) / 4;
+    const x = xOf(t);
+    drawLine(x, top + plotHeight, x, top + plotHeight + 5, axis);
+    const label = formatTick(t);
+    drawText(label, Math.min(width - textWidth(label) - 2, Math.max(0, x - textWidth(label) / 2)), top + plotHeight + 14, axis);
+  }
+
+  // Stock only changes at recorded points, so draw it as a step line
+  for (let i = 0; i < points.length; i++) {
+    const x = xOf(points[i].timestamp);
+    const y = yOf(points[i].amount);
+    const nextX = i + 1 < points.length ? xOf(points[i + 1].timestamp) : xOf(to);
+    drawLine(x, y, nextX, y, line, 2);
+    if (i + 1 < points.length) {
+      drawLine(nextX, y, nextX, yOf(points[i + 1].amount), line, 2);
+    }
+  }
+
+  return encodePng(width, height, rgb);
+}
+
+// Auto-buy Rules
+interface RuleOptions {
+  action: "buy_fixed" | "buy_all" | "notify";
+  quantity: number;
+  buy_limit: number;
+  min_stock: number;
+  max_price: number;
+  min_balance: number;
+  time_start: string | null;
+  time_end: string | null;
+  weekdays: string | null;
+}
+
+interface RuleContext {
+  stock: number;
+  price: number;
+  getBalance: () => Promise<number | null>;
+}
+
+const RULE_ACTIONS: { [key: string]: RuleOptions["action"] } = {
+  buy: "buy_fixed",
+  all: "buy_all",
+  notify: "notify"
+};
+const WEEKDAY_LABELS = ["", "T2", "T3", "T4", "T5", "T6", "T7", "CN"];
+
+function timeToMinutes(time: string) {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+// Parses "/rules add" tokens after the product id: <buy|all|notify> [qty] [stock>=N] [price<=X] [balance>=Y] [limit=N] [time=HH:mm-HH:mm] [days=1-5]
+function parseRuleOptions(tokens: string[]): { rule?: RuleOptions; error?: string } {
+  const action = RULE_ACTIONS[(tokens[0] || "").toLowerCase()];
+  if (!action) return { error: "Hành động phải là buy, all hoặc notify." };
+
+  const rule: RuleOptions = {
+    action,
+    quantity: 1,
+    buy_limit: 0,
+    min_stock: 0,
+    max_price: 0,
+    min_balance: 0,
+    time_start: null,
+    time_end: null,
+    weekdays: null
+  };
+
+  let rest = tokens.slice(1);
+  if (action === "buy_fixed" && rest[0] && /^\d+$/.test(rest[0])) {
+    rule.quantity = Math.max(1, parseInt(rest[0]));
+    rest = rest.slice(1);
+  }
+
+  for (const token of rest) {
+    let match;
+    if ((match = token.match(/^stock>=(\d+)$/i))) {
+      rule.min_stock = parseInt(match[1]);
+    } else if ((match = token.match(/^price<=(.+)$/i))) {
+      rule.max_price = parseCurrency(match[1]);
+    } else if ((match = token.match(/^balance>=(.+)$/i))) {
+      rule.min_balance = parseCurrency(match[1]);
+    } else if ((match = token.match(/^limit=(\d+)$/i))) {
+      rule.buy_limit = parseInt(match[1]);
+    } else if ((match = token.match(/^time=(([0-1]?[0-9]|2[0-3]):[0-5][0-9])-(([0-1]?[0-9]|2[0-3]):[0-5][0-9])$/i))) {
+      rule.time_start = normalizeTime(match[1]);
+      rule.time_end = normalizeTime(match[3]);
+    } else if ((match = token.match(/^days=([1-7](?:[-,][1-7])*)$/i))) {
+      const days = new Set<number>();
+      for (const part of match[1].split(',')) {
+        const [from, to] = part.split('-').map(Number);
+        for (let d = from; d <= (to || from); d++) days.add(d);
+      }
+      rule.weekdays = Array.from(days).sort().join(',');
+    } else {
+      return { error: `Điều kiện không hợp lệ: ${token}` };
+    }
+  }
+
+  return { rule };
+}
+
+function insertRule(monitorId: number, userId: string, rule: RuleOptions) {
+  const info = db.prepare(`
+    INSERT INTO rules (monitor_id, user_id, action, quantity, buy_limit, min_stock, max_price, min_balance, time_start, time_end, weekdays)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(monitorId, userId, rule.action, rule.quantity, rule.buy_limit, rule.min_stock, rule.max_price, rule.min_balance, rule.time_start, rule.time_end, rule.weekdays);
+  return Number(info.lastInsertRowid);
+}
+
+// Shortcut used by /autobuy and schedules: replace the monitor's buy rules with a single one.
+// A limit keeps the old behaviour of buying everything needed to reach it as fast as possible.
+function setAutoBuyRule(monitorId: number, userId: string, amount: number, limit: number) {
+  db.prepare("DELETE FROM rules WHERE monitor_id = ? AND action != 'notify'").run(monitorId);
+  return insertRule(monitorId, userId, {
+    action: limit > 0 ? "buy_all" : "buy_fixed",
+    quantity: Math.max(1, amount || 1),
+    buy_limit: limit > 0 ? limit : 0,
+    min_stock: 0,
+    max_price: 0,
+    min_balance: 0,
+    time_start: null,
+    time_end: null,
+    weekdays: null
+  });
+}
+
+function disableBuyRules(monitorId: number) {
+  return db.prepare("UPDATE rules SET enabled = 0 WHERE monitor_id = ? AND action != 'notify' AND enabled = 1").run(monitorId).changes;
+}
+
+function getMonitorRules(monitorId: number, onlyEnabled = false) {
+  return db.prepare(`SELECT * FROM rules WHERE monitor_id = ?${onlyEnabled ? " AND enabled = 1" : ""} ORDER BY id`).all(monitorId) as any[];
+}
+
+function describeRule(rule: any) {
+  let action = "🔔 Chỉ thông báo";
+  if (rule.action === "buy_fixed") action = `🛒 Mua ${rule.quantity}`;
+  if (rule.action === "buy_all") action = "🛒 Mua tất cả";
+
+  const conditions: string[] = [];
+  if (rule.min_stock > 0) conditions.push(`kho ≥ ${rule.min_stock}`);
+  if (rule.max_price > 0) conditions.push(`giá ≤ ${Number(rule.max_price).toLocaleString('vi-VN')}đ`);
+  if (rule.min_balance > 0) conditions.push(`số dư ≥ ${Number(rule.min_balance).toLocaleString('vi-VN')}đ`);
+  if (rule.time_start && rule.time_end) conditions.push(`${rule.time_start}-${rule.time_end}`);
+  if (rule.weekdays) conditions.push(String(rule.weekdays).split(',').map((d: string) => WEEKDAY_LABELS[Number(d)]).join(','));
+
+  const limit = rule.buy_limit > 0 ? ` | Đã mua ${rule.bought_count}/${rule.buy_limit}` : "";
+  return `#${rule.id} ${rule.enabled ? "✅" : "⏸"} ${action}${conditions.length > 0 ? ` khi ${conditions.join(", ")}` : ""}${limit}`;
+}
+
+async function ruleMatches(rule: any, context: RuleContext) {
+  if (rule.min_stock > 0 && context.stock < rule.min_stock) return false;
+  if (rule.max_price > 0 && (context.price <= 0 || context.price > rule.max_price)) return false;
+
+  const now = new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Ho_Chi_Minh' }));
+  if (rule.weekdays) {
+    const isoDay = now.getDay() === 0 ? 7 : now.getDay();
+    if (!String(rule.weekdays).split(',').includes(String(isoDay))) return false;
+  }
+  if (rule.time_start && rule.time_end) {
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    const start = timeToMinutes(rule.time_start);
+    const end = timeToMinutes(rule.time_end);
+    // Windows like 22:00-02:00 wrap past midnight
+    const inWindow = start <= end ? minutes >= start && minutes <= end : minutes >= start || minutes <= end;
+    if (!inWindow) return false;
+  }
+
+  // Balance is checked last since it costs an API call
+  if (rule.min_balance > 0) {
+    const balance = await context.getBalance();
+    if (balance === null || balance < rule.min_balance) return false;
+  }
+  return true;
+}
+
+// Auto-buy Schedules - cron expressions are parsed and evaluated in Vietnam time by lib/cron.ts
+// A schedule missed by more than this while the bot was down is skipped instead of fired late
+const SCHEDULE_CATCHUP_MS = 12 * 60 * 60 * 1000;
+
+function formatScheduleTime(ms: number) {
+  return new Date(ms).toLocaleString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' });
+}
+
+function describeSchedule(schedule: any) {
+  let message = `#${schedule.id} ${schedule.enabled ? "⏰" : "⏸"} ${schedule.recurring ? "Lặp lại" : "Một lần"} \`${schedule.cron}\``;
+  message += ` | SL: ${schedule.amount}, GH: ${schedule.buy_limit > 0 ? schedule.buy_limit : "Không"}`;
+  if (schedule.end_time) message += ` | Tắt lúc ${schedule.end_time}`;
+  if (schedule.enabled && schedule.next_run) message += `\n      ➡️ Lần tới: ${formatScheduleTime(schedule.next_run)}`;
+  if (schedule.end_at) message += `\n      🕛 Đang chạy, tắt lúc: ${formatScheduleTime(schedule.end_at)}`;
+  if (schedule.last_run) message += `\n      ✔️ Lần trước: ${formatScheduleTime(schedule.last_run)}`;
+  return message;
+}
+
+function createSchedule(monitorId: number, userId: string, spec: ScheduleSpec) {
+  const info = db.prepare(`
+    INSERT INTO schedules (monitor_id, user_id, cron, recurring, amount, buy_limit, end_time, next_run)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(monitorId, userId, spec.cronExpr, spec.recurring ? 1 : 0, spec.amount, spec.limit, spec.endTime, spec.nextRun);
+  return Number(info.lastInsertRowid);
+}
+
+function cancelSchedule(schedule: any) {
+  // A schedule that is currently running also stops the auto-buy it turned on
+  if (schedule.end_at && schedule.rule_id) db.prepare("UPDATE rules SET enabled = 0 WHERE id = ?").run(schedule.rule_id);
+  db.prepare("DELETE FROM schedules WHERE id = ?").run(schedule.id);
+}
+
+// Schedules migrated from the old monitors.schedule_time column have no next_run yet
+for (const schedule of db.prepare("SELECT id, cron FROM schedules WHERE next_run IS NULL AND last_run IS NULL AND enabled = 1").all() as any[]) {
+  db.prepare("UPDATE schedules SET next_run = ? WHERE id = ?").run(nextCronRun(schedule.cron), schedule.id);
+}
+
+// Fires due schedules (including ones missed while the bot was down) and turns off auto-buy when their end time passes
+async function processSchedules(now = Date.now()) {
+  const due = db.prepare(`
+    SELECT s.*, m.product_id, m.product_name, m.chat_id, m.workspace_id FROM schedules s
+    JOIN monitors m ON m.id = s.monitor_id
+    WHERE s.enabled = 1 AND s.next_run IS NOT NULL AND s.next_run <= ?
+  `).all(now) as any[];
+
+  for (const schedule of due) {
+    const lateBy = now - schedule.next_run;
+    const endAt = schedule.end_time ? scheduleEndAt(schedule.end_time, schedule.next_run) : null;
+    const nextRun = schedule.recurring ? nextCronRun(schedule.cron, now) : null;
+    let ruleId = schedule.rule_id;
+
+    try {
+      if (lateBy > SCHEDULE_CATCHUP_MS || (endAt !== null && endAt <= now)) {
+        log(`⏰ Bỏ qua lịch hẹn #${schedule.id} cho ${schedule.product_name} (đã lỡ lúc ${formatScheduleTime(schedule.next_run)})`, schedule.user_id, schedule.workspace_id, { level: "warn", category: "buy", productId: schedule.product_id });
+        await bot.telegram.sendMessage(schedule.chat_id, `⚠️ Bot đã lỡ lịch hẹn #${schedule.id} lúc ${formatScheduleTime(schedule.next_run)} cho sản phẩm: ${schedule.product_name}. Lịch hẹn này đã bị bỏ qua.`);
+      } else {
+        // Each run starts a fresh rule so the purchase limit applies per run
+        if (schedule.rule_id) db.prepare("DELETE FROM rules WHERE id = ?").run(schedule.rule_id);
+        ruleId = insertRule(schedule.monitor_id, schedule.user_id, {
+          action: schedule.buy_limit > 0 ? "buy_all" : "buy_fixed",
+          quantity: Math.max(1, schedule.amount || 1),
+          buy_limit: schedule.buy_limit > 0 ? schedule.buy_limit : 0,
+          min_stock: 0,
+          max_price: 0,
+          min_balance: 0,
+          time_start: null,
+          time_end: null,
+          weekdays: null
+        });
+        db.prepare("UPDATE monitors SET status = 'monitoring' WHERE id = ?").run(schedule.monitor_id);
+
+        const lateInfo = lateBy > 60 * 1000 ? ` (chạy bù, trễ ${Math.round(lateBy / 60000)} phút)` : "";
+        log(`⏰ Tự động bật Auto-buy theo lịch hẹn #${schedule.id} cho ${schedule.product_name}${lateInfo}`, schedule.user_id, schedule.workspace_id, { category: "buy", productId: schedule.product_id });
+        publishEvent({
+          type: "schedule_fired", userId: schedule.user_id, monitorId: schedule.monitor_id, productId: schedule.product_id, productName: schedule.product_name,
+          amount: schedule.amount, message: `#${schedule.id}${lateInfo}`
+        });
+        await bot.telegram.sendMessage(schedule.chat_id,
+          `⏰ **Đến giờ hẹn!** Đã tự động BẬT Auto-buy cho sản phẩm: ${schedule.product_name}${lateInfo}` +
+          (endAt ? `\n🕛 Sẽ tự động tắt lúc: ${formatScheduleTime(endAt)}` : "")
+        );
+      }
+    } catch (e) {
+      logError(`Failed to run schedule ${schedule.id}`, e, "buy", schedule.user_id, { productId: schedule.product_id });
+    }
+
+    const fired = ruleId !== schedule.rule_id;
+    if (!schedule.recurring && !(fired && endAt)) {
+      db.prepare("DELETE FROM schedules WHERE id = ?").run(schedule.id);
+    } else {
+      db.prepare("UPDATE schedules SET next_run = ?, last_run = ?, end_at = ?, rule_id = ?, enabled = ? WHERE id = ?")
+        .run(nextRun, now, fired ? endAt : schedule.end_at, ruleId, schedule.recurring ? 1 : 0, schedule.id);
+    }
+  }
+
+  const ending = db.prepare(`
+    SELECT s.*, m.product_name, m.chat_id, m.workspace_id FROM schedules s
+    JOIN monitors m ON m.id = s.monitor_id
+    WHERE s.end_at IS NOT NULL AND s.end_at <= ?
+  `).all(now) as any[];
+
+  for (const schedule of ending) {
+    if (schedule.rule_id) db.prepare("UPDATE rules SET enabled = 0 WHERE id = ?").run(schedule.rule_id);
+    if (schedule.recurring) {
+      db.prepare("UPDATE schedules SET end_at = NULL WHERE id = ?").run(schedule.id);
+    } else {
+      db.prepare("DELETE FROM schedules WHERE id = ?").run(schedule.id);
+    }
+    log(`⏰ Tự động tắt Auto-buy theo lịch hẹn #${schedule.id} cho ${schedule.product_name}`, schedule.user_id, schedule.workspace_id, { category: "buy" });
+    try {
+      await bot.telegram.sendMessage(schedule.chat_id, `🕛 **Hết giờ hẹn!** Đã tự động TẮT Auto-buy của lịch hẹn #${schedule.id} cho sản phẩm: ${schedule.product_name}`);
+    } catch (e) {
+      logError(`Failed to notify schedule end ${schedule.id}`, e, "telegram", schedule.user_id);
+    }
   }
-}, 60000);
+}
 
-async function getCachedAPI(username: string, password: string) {
-  const cacheKey = `${username}:${password}`;
-  if (apiCache[cacheKey] && (Date.now() - apiCache[cacheKey].timestamp < CACHE_TTL)) {
-    return apiCache[cacheKey].data;
+// Watch Groups
+function getWatchGroup(userId: string, name: string) {
+  return db.prepare("SELECT * FROM watch_groups WHERE user_id = ? AND name = ?").get(userId, name.toLowerCase()) as any;
+}
+
+function getWatchGroups(userId: string) {
+  return db.prepare("SELECT * FROM watch_groups WHERE user_id = ? ORDER BY name").all(userId) as any[];
+}
+
+// The named group, or every group of the user when no name is given
+function findWatchGroups(userId: string, name?: string) {
+  if (!name) return getWatchGroups(userId);
+  const group = getWatchGroup(userId, name);
+  return group ? [group] : [];
+}
+
+function missingGroupMessage(name?: string) {
+  return name
+    ? `❌ Không tìm thấy nhóm "${name}". Tạo nhóm bằng: /group create ${name} <id...>`
+    : "ℹ️ Bạn chưa có nhóm sản phẩm nào. Tạo nhóm bằng: /group create <tên> <id...>";
+}
+
+function getGroupProductIds(groupId: number) {
+  return (db.prepare("SELECT product_id FROM watch_group_items WHERE group_id = ? ORDER BY CAST(product_id AS INTEGER)").all(groupId) as any[]).map(row => row.product_id as string);
+}
+
+// One report line per product; with `previous` the change since the last report is shown
+function buildGroupReport(title: string, categories: any[], productIds: string[], providerId: string, previous?: Map<string, number>) {
+  let report = `📋 **${title}**\n\n`;
+  let hasChanges = false;
+  for (const id of productIds) {
+    const product = findProductInCategories(categories, id, providerId);
+    const name = product ? product.name : `ID ${id}`;
+    const amount = product ? parseInt(product.amount) || 0 : 0;
+    const price = product ? product.price : "N/A";
+
+    let changeText = "";
+    if (previous) {
+      const lastAmount = previous.get(id);
+      if (lastAmount !== undefined && lastAmount !== amount) {
+        hasChanges = true;
+        const diff = amount - lastAmount;
+        changeText = diff > 0 ? ` (📈 Tăng ${diff})` : ` (📉 Giảm ${Math.abs(diff)})`;
+      } else if (lastAmount === undefined && amount > 0) {
+        hasChanges = true;
+        changeText = ` (🆕 Mới xuất hiện)`;
+      }
+      previous.set(id, amount);
+    }
+
+    report += `🔹 **${name}** (ID: ${id})\n   📦 Số lượng: **${amount}**${changeText}\n   💰 Giá: ${price}\n\n`;
   }
-  
-  if (pendingRequests.has(cacheKey)) {
-    return pendingRequests.get(cacheKey);
+  return { report, hasChanges };
+}
+
+// Sends a fresh report for the group and removes the previous one from the chat
+async function sendGroupReport(chatId: string, user: any, group: any) {
+  const data = await getCachedAPI(user.username, user.password, user.provider);
+  const { report } = buildGroupReport(`TRẠNG THÁI KHO NHÓM ${group.name.toUpperCase()}:`, data.categories || [], getGroupProductIds(group.id), user.provider);
+  const messageKey = `${chatId}:${group.id}`;
+  const oldMsgId = lastGroupMessageIds.get(messageKey);
+  if (oldMsgId) {
+    try { await bot.telegram.deleteMessage(chatId, oldMsgId); } catch (e) { /* ignore */ }
   }
-  
-  const fetchPromise = (async () => {
-    try {
-      const response = await axiosInstance.get(`https://shop.saidiait.top/api/ListResource.php?username=${username}&password=${password}`);
-      apiCache[cacheKey] = {
-        data: response.data,
-        timestamp: Date.now()
-      };
-      return response.data;
-    } catch (error) {
-      console.error("API Fetch Error:", error);
-      // Return stale cache if available on error
-      if (apiCache[cacheKey]) return apiCache[cacheKey].data;
-      throw error;
-    } finally {
-      pendingRequests.delete(cacheKey);
+  const newMsg = await bot.telegram.sendMessage(chatId,
+    report + `_Kiểm tra lúc: ${new Date().toLocaleTimeString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' })}_`,
+    { parse_mode: 'Markdown' }
+  );
+  lastGroupMessageIds.set(messageKey, newMsg.message_id);
+}
+
+// Adds every product of the given IDs to the user's monitors, skipping ones already tracked
+async function monitorProducts(reply: (text: string) => any, scope: MonitorScope, chatId: string, user: any, productIds: string[]) {
+  reply(`🛠 Đang thiết lập theo dõi tự động cho các ID: ${productIds.join(", ")}...`);
+  const data = await getCachedAPI(user.username, user.password, user.provider);
+  const categories = data.categories || [];
+
+  for (const id of productIds) {
+    const product = findProductInCategories(categories, id, user.provider);
+    if (product) {
+      try {
+        if (createMonitor(scope, chatId, user, product) !== null) {
+          reply(`✅ Đã thêm theo dõi: ${product.name} (ID: ${id}) - Hiện có: ${parseInt(product.amount) || 0}`);
+        } else {
+          reply(`ℹ️ ID ${id} đã có trong danh sách theo dõi.`);
+        }
+      } catch (e) {
+        logError(`Failed to add monitor for ID ${id}`, e, "monitor", scope.userId, { productId: id });
+        reply(`❌ Lỗi khi thêm ID ${id}`);
+      }
+    } else {
+      reply(`❌ Không tìm thấy sản phẩm ID ${id} trên API.`);
     }
-  })();
-  
-  pendingRequests.set(cacheKey, fetchPromise);
-  return fetchPromise;
+  }
+  reply("✨ Hoàn tất! Bot sẽ thông báo ngay khi số lượng (amount) thay đổi.");
+}
+
+// Team Workspaces
+type WorkspaceRole = "owner" | "buyer" | "viewer";
+
+// Ordered from least to most privileged
+const WORKSPACE_ROLES: WorkspaceRole[] = ["viewer", "buyer", "owner"];
+
+const ROLE_LABELS: { [key in WorkspaceRole]: string } = {
+  owner: "Chủ sở hữu",
+  buyer: "Người mua",
+  viewer: "Người xem"
+};
+
+function getChatWorkspace(chatId: string) {
+  return db.prepare("SELECT * FROM workspaces WHERE chat_id = ?").get(chatId) as any;
+}
+
+function getWorkspaceMember(workspaceId: number, userId: string) {
+  return db.prepare("SELECT * FROM workspace_members WHERE workspace_id = ? AND user_id = ?").get(workspaceId, userId) as any;
+}
+
+function getWorkspaceMembers(workspaceId: number) {
+  return db.prepare("SELECT * FROM workspace_members WHERE workspace_id = ? ORDER BY joined_at").all(workspaceId) as any[];
+}
+
+function hasRole(role: WorkspaceRole, required: WorkspaceRole) {
+  return WORKSPACE_ROLES.indexOf(role) >= WORKSPACE_ROLES.indexOf(required);
+}
+
+function memberName(workspaceId: number, userId: string) {
+  return getWorkspaceMember(workspaceId, userId)?.display_name || userId;
+}
+
+// The monitors a command acts on: the sender's own, or the workspace's when sent in its group by a member
+interface MonitorScope {
+  userId: string;
+  workspaceId: number | null;
+  // Always "owner" for personal monitors
+  role: WorkspaceRole;
+  // SQL condition on monitors columns, bound to `param`
+  where: string;
+  param: string | number;
+}
+
+function personalScope(userId: string): MonitorScope {
+  return { userId, workspaceId: null, role: "owner", where: "user_id = ? AND workspace_id IS NULL", param: userId };
+}
+
+function workspaceScope(userId: string, workspaceId: number, role: WorkspaceRole): MonitorScope {
+  return { userId, workspaceId, role, where: "workspace_id = ?", param: workspaceId };
+}
+
+// Command Registry - every command is declared once; /start, /help, /menu, setMyCommands and /api/commands are generated from it
+type CommandScope = "all" | "private" | "group" | "admin";
+type CommandSection = "account" | "products" | "buying" | "groups" | "team" | "system";
+type CommandContext = Context & { from: NonNullable<Context["from"]>; chat: NonNullable<Context["chat"]> };
+
+interface CommandDefinition {
+  name: string;
+  // Argument schema shown in help: <required> [optional]
+  args?: string;
+  description: string;
+  section: CommandSection;
+  scope?: CommandScope;
+  example?: string;
+  // Replaces the generated "Sử dụng: ..." reply when required arguments are missing
+  usage?: string;
+  aliases?: string[];
+  menu?: { text: string; order: number };
+  // Minimum workspace role; commands with a role act on the workspace when sent in its group
+  role?: WorkspaceRole;
+  handler: (ctx: CommandContext, text: string, scope: MonitorScope) => unknown;
+}
+
+const COMMAND_SECTIONS: { [key in CommandSection]: string } = {
+  account: "🔑 Tài khoản",
+  products: "📦 Sản phẩm & Theo dõi",
+  buying: "🛒 Mua hàng & Tự động",
+  groups: "⚡ Nhóm theo dõi",
+  team: "👥 Workspace nhóm",
+  system: "⚙️ Hệ thống"
+};
+
+const SCOPE_DENIED: { [key in CommandScope]: string } = {
+  all: "",
+  private: "🔒 Lệnh này chỉ dùng được khi nhắn riêng với bot.",
+  group: "👥 Lệnh này chỉ dùng được trong nhóm chat.",
+  admin: "⛔ Lệnh này chỉ dành cho quản trị viên."
+};
+
+
+const commandRegistry: CommandDefinition[] = [];
+const commandLookup = new Map<string, CommandDefinition>();
+
+function defineCommand(meta: Omit<CommandDefinition, "handler">, handler: CommandDefinition["handler"]) {
+  const command = { ...meta, handler };
+  commandRegistry.push(command);
+  // Kept grouped by section (stable within a section) so every generated list reads the same
+  const sections = Object.keys(COMMAND_SECTIONS);
+  commandRegistry.sort((a, b) => sections.indexOf(a.section) - sections.indexOf(b.section));
+  [command.name, ...(command.aliases || [])].forEach(name => commandLookup.set(name, command));
+  bot.command([command.name, ...(command.aliases || [])], ctx => runCommand(command, ctx, ctx.message.text));
+}
+
+// Counts <required> arguments outside of [optional] groups, so "[del <mã>]" requires nothing
+function countRequiredArgs(args = "") {
+  return (args.replace(/\[[^\]]*\]/g, "").match(/<[^>]+>/g) || []).length;
+}
+
+function commandUsage(command: CommandDefinition) {
+  if (command.usage) return command.usage;
+  let text = `Sử dụng: /${command.name}${command.args ? " " + command.args : ""}`;
+  if (command.example) text += `\nVí dụ: ${command.example}`;
+  return text;
+}
+
+function isCommandAllowed(command: CommandDefinition, chatType: string, userId: string) {
+  switch (command.scope || "all") {
+    case "private": return chatType === "private";
+    case "group": return chatType === "group" || chatType === "supergroup";
+    case "admin": return isAdmin(userId);
+    default: return true;
+  }
+}
+
+function visibleCommands(chatType: string, userId: string) {
+  return commandRegistry.filter(command => isCommandAllowed(command, chatType, userId));
 }
 
-async function getBalance(username: string, password: string) {
+// Monitors and purchases from a workspace chat belong to the workspace; the string is the refusal to reply with
+function resolveChatScope(chatId: string, userId: string, role: WorkspaceRole, action: string): MonitorScope | string {
+  const workspace = getChatWorkspace(chatId);
+  if (!workspace) return personalScope(userId);
+  const member = getWorkspaceMember(workspace.id, userId);
+  if (!member) return `👥 Nhóm này là workspace "${workspace.name}". Gửi /workspace join để tham gia.`;
+  if (!hasRole(member.role, role)) {
+    return `⛔ ${action} cần quyền ${ROLE_LABELS[role]} trong workspace (bạn đang là ${ROLE_LABELS[member.role as WorkspaceRole]}).`;
+  }
+  return workspaceScope(userId, workspace.id, member.role);
+}
+
+// Shared by typed commands and menu buttons; the text is "/name args..." in both cases
+async function runCommand(command: CommandDefinition, ctx: Context, text: string) {
+  if (!ctx.from || !ctx.chat) return;
+  if (!isCommandAllowed(command, ctx.chat.type, ctx.from.id.toString())) {
+    return ctx.reply(SCOPE_DENIED[command.scope || "all"]);
+  }
+
+  // Quoted arguments count as one, e.g. the cron expression of /schedule
+  const args = (text.match(/"[^"]*"|\S+/g) || []).slice(1);
+  if (args.length < countRequiredArgs(command.args)) return ctx.reply(commandUsage(command));
+
+  const userId = ctx.from.id.toString();
+  const scope = command.role ? resolveChatScope(ctx.chat.id.toString(), userId, command.role, `Lệnh /${command.name}`) : personalScope(userId);
+  if (typeof scope === "string") return ctx.reply(scope);
+
   try {
-    const response = await axiosInstance.get(`https://shop.saidiait.top/api/GetBalance.php?username=${username}&password=${password}`);
-    // The API returns a plain string like "116.565đ"
-    return response.data;
+    await command.handler(ctx as CommandContext, text, scope);
   } catch (error) {
-    console.error("Get Balance Error:", error);
-    return null;
+    logError(`Command /${command.name} Error`, error, "telegram", ctx.from?.id?.toString());
+    ctx.reply("❌ Đã xảy ra lỗi khi xử lý lệnh. Vui lòng thử lại sau.");
   }
 }
 
-// Helper to find product in categories
-function findProductInCategories(categories: any[], productId: string) {
-  for (const cat of categories) {
-    if (String(cat.id) === String(productId)) {
-      return {
-        id: String(cat.id),
-        name: cat.name || `Category ${cat.id}`,
-        url: `https://shop.saidiait.top/category/${cat.id}`,
-        price: "N/A",
-        amount: "0",
-        raw: cat
-      };
-    }
-    const products = cat.accounts || [];
-    const product = products.find((p: any) => String(p.id) === String(productId));
-    if (product) {
-      return {
-        id: String(product.id),
-        name: product.name || `Sản phẩm ${product.id}`,
-        url: `https://shop.saidiait.top/product/${product.id}`,
-        price: product.price || "N/A",
-        amount: product.amount || "0",
-        raw: product
-      };
-    }
-  }
-  return null;
+function renderCommandList(commands: CommandDefinition[]) {
+  return commands.map(command => `/${command.name}${command.args ? " " + command.args : ""} - ${command.description}`).join("\n");
+}
+
+function renderHelp(commands: CommandDefinition[]) {
+  let text = "📖 <b>Hướng dẫn chi tiết các lệnh:</b>\n";
+  (Object.keys(COMMAND_SECTIONS) as CommandSection[]).forEach(section => {
+    const inSection = commands.filter(command => command.section === section);
+    if (inSection.length === 0) return;
+    text += `\n<b>${COMMAND_SECTIONS[section]}:</b>\n`;
+    inSection.forEach(command => {
+      text += `<code>/${command.name}${command.args ? " " + escapeHtml(command.args) : ""}</code> - ${escapeHtml(command.description)}`;
+      if (command.example) text += ` (VD: <code>${escapeHtml(command.example)}</code>)`;
+      text += "\n";
+    });
+  });
+  return text;
+}
+
+function renderMenuKeyboard(commands: CommandDefinition[]) {
+  const buttons = commands
+    .filter(command => command.menu)
+    .sort((a, b) => a.menu!.order - b.menu!.order)
+    .map(command => ({ text: command.menu!.text, callback_data: `cmd_${command.name}` }));
+  const rows = [];
+  for (let i = 0; i < buttons.length; i += 2) rows.push(buttons.slice(i, i + 2));
+  return rows;
+}
+
+// Admin-only commands are never advertised in Telegram's command list
+function botCommandList(chatType: "private" | "group") {
+  return commandRegistry
+    .filter(command => (command.scope || "all") === "all" || command.scope === chatType)
+    .map(command => ({ command: command.name, description: command.description.slice(0, 256) }));
 }
 
 // Bot Commands
@@ -326,310 +3068,108 @@ bot.start((ctx) => {
   ctx.reply(
     "Chào mừng bạn đến với Shopping Monitor Bot!\n\n" +
     "Các lệnh hỗ trợ:\n" +
-    "/login <user> <pass> - Đăng nhập tài khoản shop\n" +
-    "/logout - Đăng xuất và xóa thông tin tài khoản\n" +
-    "/check <id> - Kiểm tra nhanh số lượng (Mặc định ID 78)\n" +
-    "/azeem - Kiểm tra nhanh kho Azeem (21, 78, 108)\n" +
-    "/auto_setup - Thêm các ID Azeem (21, 78, 108) vào danh sách\n" +
-    "/get <id> - Xem chi tiết JSON của sản phẩm\n" +
-    "/monitor <id> - Thêm sản phẩm vào danh sách kiểm tra\n" +
-    "/buy <id> <amount> - Mua tài khoản (Ví dụ: /buy 21 1)\n" +
-    "/list - Danh sách sản phẩm đang theo dõi\n" +
-    "/scan - Chạy kiểm tra toàn bộ danh sách (và tự động mua nếu bật)\n" +
-    "/stop <id> - Dừng theo dõi sản phẩm\n" +
-    "/autobuy <id> <1|0> <amount> - Bật/Tắt tự động mua hàng với số lượng\n" +
-    "/schedule <id> <time> <amount> [limit] - Hẹn giờ bật auto-buy (VD: /schedule 21 15:30 10 50)\n" +
-    "/logs - Xem nhật ký hoạt động\n" +
-    "/clear_logs - Xóa nhật ký hoạt động\n" +
-    "/status - Kiểm tra trạng thái hoạt động của Bot\n" +
-    "/sysinfo - Xem báo cáo RAM và bộ nhớ đệm\n" +
-    "/balance - Kiểm tra số dư tài khoản\n" +
-    "/menu - Hiển thị menu điều khiển nhanh"
+    renderCommandList(visibleCommands(ctx.chat.type, ctx.from.id.toString()))
   );
 });
 
-bot.command("menu", (ctx) => {
+defineCommand({
+  name: "menu", section: "system", description: "Hiển thị menu điều khiển nhanh"
+}, (ctx) => {
   ctx.reply("🎛 **Menu Điều Khiển Bot**", {
     parse_mode: "Markdown",
     reply_markup: {
-      inline_keyboard: [
-        [
-          { text: "📋 Danh sách theo dõi", callback_data: "cmd_list" },
-          { text: "💰 Kiểm tra số dư", callback_data: "cmd_balance" }
-        ],
-        [
-          { text: "📦 Kho Azeem", callback_data: "cmd_azeem" },
-          { text: "📊 Trạng thái Bot", callback_data: "cmd_status" }
-        ],
-        [
-          { text: "🛒 Lệnh Auto-buy đang bật", callback_data: "cmd_active_autobuy" },
-          { text: "🛑 Tắt tất cả Auto-buy", callback_data: "cmd_stop_autobuy" }
-        ],
-        [
-          { text: "⏰ Đặt hẹn giờ", callback_data: "cmd_schedule_guide" },
-          { text: "🔕 Tắt tất cả hẹn giờ", callback_data: "cmd_stop_schedule" }
-        ],
-        [
-          { text: "⚙️ Auto Setup (Azeem)", callback_data: "cmd_auto_setup" },
-          { text: "🔍 Quét ngay (Scan)", callback_data: "cmd_scan" }
-        ],
-        [
-          { text: "📖 Hướng dẫn lệnh", callback_data: "cmd_help_guide" },
-          { text: "🚪 Đăng xuất", callback_data: "cmd_logout" }
-        ]
-      ]
+      inline_keyboard: renderMenuKeyboard(visibleCommands(ctx.chat.type, ctx.from.id.toString()))
     }
   });
 });
 
-// Handle callback queries from menu
-bot.on("callback_query", async (ctx) => {
-  const data = (ctx.callbackQuery as any).data;
-  if (!data || !data.startsWith("cmd_")) return;
-  
-  const cmd = data.replace("cmd_", "");
-  
-  // Acknowledge the callback query
-  await ctx.answerCbQuery();
-  
-  // Execute the corresponding command logic
-  const fakeMessage = { text: `/${cmd}` };
-  const fakeCtx = { ...ctx, message: fakeMessage };
-  
-  // We can't easily call the command handlers directly, so we'll just simulate the logic or tell the user to type it
-  // For simple commands, we can just reply with instructions or duplicate the logic
-  
-  if (cmd === "list") {
-    const userId = ctx.from.id.toString();
-    const rows = db.prepare("SELECT * FROM monitors WHERE user_id = ?").all(userId);
-    if (rows.length === 0) return ctx.reply("Bạn chưa theo dõi sản phẩm nào.");
-
-    let message = "📋 Danh sách sản phẩm đang theo dõi:\n\n";
-    rows.forEach((row: any) => {
-      const autoBuyStatus = row.auto_buy ? "✅ Bật" : "❌ Tắt";
-      const limitInfo = row.buy_limit > 0 ? `, Giới hạn: ${row.bought_count}/${row.buy_limit}` : "";
-      const scheduleInfo = row.schedule_time ? `\n⏰ Hẹn giờ: Bật lúc ${row.schedule_time} (SL: ${row.schedule_amount}, GH: ${row.schedule_limit === 0 ? "Không" : row.schedule_limit})` : "";
-      
-      message += `🔹 Monitor ID: ${row.id}\n`;
-      message += `📦 Sản phẩm: ${row.product_name}\n`;
-      message += `🆔 Product ID: ${row.product_id}\n`;
-      message += `📊 Trạng thái: ${row.status}\n`;
-      message += `🛒 Auto-buy: ${autoBuyStatus} (SL: ${row.auto_buy_amount || 1}${limitInfo})${scheduleInfo}\n`;
-      message += `🔗 URL: ${row.url}\n\n`;
-    });
-    ctx.reply(message);
-  } else if (cmd === "active_autobuy") {
-    const userId = ctx.from.id.toString();
-    const rows = db.prepare("SELECT * FROM monitors WHERE user_id = ? AND auto_buy = 1").all(userId);
-    if (rows.length === 0) return ctx.reply("Hiện tại KHÔNG CÓ lệnh Auto-buy nào đang bật.");
-
-    let message = "🛒 **Danh sách lệnh Auto-buy ĐANG BẬT:**\n\n";
-    rows.forEach((row: any) => {
-      const limitInfo = row.buy_limit > 0 ? ` (Đã mua: ${row.bought_count}/${row.buy_limit})` : " (Không giới hạn)";
-      message += `🔹 Monitor ID: ${row.id} | Product ID: ${row.product_id}\n`;
-      message += `📦 Sản phẩm: ${row.product_name}\n`;
-      message += `⚡ Số lượng mỗi lần: ${row.auto_buy_amount || 1}${limitInfo}\n\n`;
-    });
-    ctx.reply(message);
-  } else if (cmd === "stop_autobuy") {
-    const userId = ctx.from.id.toString();
-    const result = db.prepare("UPDATE monitors SET auto_buy = 0, auto_buy_amount = 0, buy_limit = 0, bought_count = 0 WHERE user_id = ? AND auto_buy = 1").run(userId);
-    if (result.changes > 0) {
-      ctx.reply(`🛑 Đã tắt thành công ${result.changes} lệnh Auto-buy đang chạy.`);
-      log(`Tắt tất cả lệnh Auto-buy qua menu`, userId);
-    } else {
-      ctx.reply("ℹ️ Hiện tại không có lệnh Auto-buy nào đang bật.");
-    }
-  } else if (cmd === "stop_schedule") {
-    const userId = ctx.from.id.toString();
-    const result = db.prepare("UPDATE monitors SET schedule_time = NULL, schedule_amount = 0, schedule_limit = 0 WHERE user_id = ? AND schedule_time IS NOT NULL").run(userId);
-    if (result.changes > 0) {
-      ctx.reply(`🔕 Đã huỷ thành công ${result.changes} lịch hẹn giờ Auto-buy.`);
-      log(`Huỷ tất cả lịch hẹn giờ qua menu`, userId);
-    } else {
-      ctx.reply("ℹ️ Hiện tại không có lịch hẹn giờ nào đang được đặt.");
-    }
-  } else if (cmd === "auto_setup") {
-    const targetIds = ["21", "78", "108"];
-    const userId = ctx.from.id.toString();
-    const chatId = ctx.chat?.id?.toString() || userId;
-    const user = getUser(userId);
-    
-    if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi thiết lập tự động: /login <user> <pass>");
-
-    ctx.reply(`🛠 Đang thiết lập theo dõi tự động cho các ID: ${targetIds.join(", ")}...`);
-
-    try {
-      const data = await getCachedAPI(user.username, user.password);
-      const categories = data.categories || [];
-
-      for (const id of targetIds) {
-        const product = findProductInCategories(categories, id);
-        if (product) {
-          try {
-            const existing = db.prepare("SELECT * FROM monitors WHERE user_id = ? AND product_id = ?").get(userId, id);
-            if (!existing) {
-              const currentAmount = parseInt(product.amount) || 0;
-              db.prepare("INSERT INTO monitors (chat_id, user_id, product_id, url, product_name, last_amount) VALUES (?, ?, ?, ?, ?, ?)")
-                .run(chatId, userId, product.id, product.url, product.name, currentAmount);
-              ctx.reply(`✅ Đã thêm theo dõi: ${product.name} (ID: ${id}) - Hiện có: ${currentAmount}`);
-            } else {
-              ctx.reply(`ℹ️ ID ${id} đã có trong danh sách theo dõi.`);
-            }
-          } catch (e) {
-            console.error(e);
-            ctx.reply(`❌ Lỗi khi thêm ID ${id}`);
-          }
-        } else {
-          ctx.reply(`❌ Không tìm thấy sản phẩm ID ${id} trên API.`);
-        }
-      }
-      ctx.reply("✨ Hoàn tất! Bot sẽ thông báo ngay khi số lượng (amount) thay đổi.");
-      log(`Chạy lệnh Auto Setup qua menu`, userId);
-    } catch (error) {
-      ctx.reply("❌ Lỗi kết nối API.");
-    }
-  } else if (cmd === "balance") {
-    const userId = ctx.from.id.toString();
-    const user = getUser(userId);
-    if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước: /login <user> <pass>");
+defineCommand({
+  name: "help", aliases: ["help_guide"], section: "system", description: "Hướng dẫn chi tiết các lệnh",
+  menu: { text: "📖 Hướng dẫn lệnh", order: 11 }
+}, (ctx) => {
+  ctx.reply(renderHelp(visibleCommands(ctx.chat.type, ctx.from.id.toString())), { parse_mode: "HTML" });
+});
 
-    ctx.reply("💰 Đang kiểm tra số dư...");
-    try {
-      const balanceData = await getBalance(user.username, user.password);
-      ctx.reply(`💰 Số dư hiện tại của bạn: ${balanceData}`);
-    } catch (error) {
-      ctx.reply("❌ Lỗi khi lấy số dư.");
-    }
-  } else if (cmd === "azeem") {
-    const userId = ctx.from.id.toString();
-    const user = getUser(userId);
-    if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước: /login <user> <pass>");
+// Menu buttons carry cmd_<name> and run the same handler as the typed command
+bot.on("callback_query", async (ctx, next) => {
+  const data = (ctx.callbackQuery as any).data;
+  // Other callbacks (catalog browser, ...) are handled by bot.action below
+  if (!data || !data.startsWith("cmd_")) return next();
 
-    ctx.reply("🔍 Đang kiểm tra trạng thái kho Azeem hiện tại...");
-    try {
-      const data = await getCachedAPI(user.username, user.password);
-      const categories = data.categories || [];
-      const targetIds = ["21", "108"];
-      
-      let report = "📋 **TRẠNG THÁI KHO AZEEM HIỆN TẠI:**\n\n";
-      for (const id of targetIds) {
-        const product = findProductInCategories(categories, id);
-        const name = product ? product.name : `ID ${id}`;
-        const amount = product ? parseInt(product.amount) || 0 : 0;
-        const price = product ? product.price : "N/A";
-        report += `🔹 **${name}** (ID: ${id})\n   📦 Số lượng: **${amount}**\n   💰 Giá: ${price}\n\n`;
-      }
-      report += `_Kiểm tra lúc: ${new Date().toLocaleTimeString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' })}_`;
-      
-      ctx.reply(report, { parse_mode: 'Markdown' });
-      log("Đã kiểm tra thủ công kho Azeem qua menu", userId);
-    } catch (error) {
-      ctx.reply("❌ Lỗi khi lấy dữ liệu kho Azeem.");
-    }
-  } else if (cmd === "status") {
-    const monitors = db.prepare("SELECT COUNT(*) as count FROM monitors").get() as { count: number };
-    const users = db.prepare("SELECT COUNT(*) as count FROM users").get() as { count: number };
-    
-    ctx.reply(
-      `🤖 **Trạng thái Bot:**\n\n` +
-      `👥 Số người dùng: ${users.count}\n` +
-      `📦 Số sản phẩm đang theo dõi: ${monitors.count}\n` +
-      `⏱ Lần quét gần nhất: ${lastScanTime}\n` +
-      `⏱ Lần báo cáo Azeem gần nhất: ${lastAzeemReportTime}\n` +
-      `🟢 Bot đang hoạt động bình thường.`
-    );
-  } else if (cmd === "schedule_guide") {
-    ctx.reply(
-      "⏰ **Hướng dẫn Đặt Hẹn Giờ Auto-buy**\n\n" +
-      "Bạn có thể lên lịch để bot tự động bật Auto-buy vào một thời điểm cụ thể trong ngày (giờ Việt Nam).\n\n" +
-      "**Cú pháp:**\n" +
-      "`/schedule <id> <HH:mm> <số lượng mỗi lần> [tổng giới hạn mua]`\n\n" +
-      "**Ví dụ:**\n" +
-      "🔹 `/schedule 21 15:30 10 50`\n" +
-      "_(Hẹn đúng 15:30 chiều sẽ tự động bật Auto-buy cho ID 21, mỗi lần mua 10 con, dừng khi mua đủ 50 con)_\n\n" +
-      "🔹 `/schedule 78 08:00 5`\n" +
-      "_(Hẹn 08:00 sáng tự động bật Auto-buy cho ID 78, mỗi lần mua 5 con, không giới hạn tổng số)_\n\n" +
-      "💡 *Lưu ý:* Khi đến giờ, bot sẽ tự động bật Auto-buy và gửi thông báo cho bạn.",
-      { parse_mode: "Markdown" }
-    );
-  } else if (cmd === "help_guide") {
-    ctx.reply(
-      "📖 **Hướng dẫn chi tiết các lệnh:**\n\n" +
-      "🔑 **Tài khoản:**\n" +
-      "`/login <user> <pass>` - Đăng nhập tài khoản shop\n" +
-      "`/logout` - Đăng xuất tài khoản\n" +
-      "`/balance` - Kiểm tra số dư hiện tại\n\n" +
-      "📦 **Sản phẩm & Theo dõi:**\n" +
-      "`/get <id>` - Xem chi tiết JSON của một sản phẩm\n" +
-      "`/monitor <id>` - Thêm sản phẩm vào danh sách theo dõi\n" +
-      "`/list` - Xem danh sách các sản phẩm đang theo dõi\n" +
-      "`/stop <id>` - Dừng theo dõi một sản phẩm\n" +
-      "`/scan` - Quét thủ công toàn bộ danh sách\n\n" +
-      "🛒 **Mua hàng & Tự động:**\n" +
-      "`/buy <id> <số_lượng>` - Mua ngay lập tức (VD: `/buy 21 1`)\n" +
-      "`/autobuy <id> <1|0> <số_lượng> [giới_hạn]` - Bật(1)/Tắt(0) tự động mua (VD: `/autobuy 21 1 5 30`)\n" +
-      "`/schedule <id> <HH:mm> <số_lượng> [giới_hạn]` - Hẹn giờ bật auto-buy\n\n" +
-      "⚡ **Tiện ích Azeem:**\n" +
-      "`/azeem` - Kiểm tra nhanh kho Azeem (ID 21, 108)\n" +
-      "`/auto_setup` - Tự động thêm các ID Azeem vào danh sách theo dõi\n\n" +
-      "⚙️ **Hệ thống:**\n" +
-      "`/menu` - Mở menu điều khiển\n" +
-      "`/status` - Xem trạng thái hoạt động của bot\n" +
-      "`/logs` - Xem nhật ký hoạt động\n" +
-      "`/clear_logs` - Xóa nhật ký hoạt động",
-      { parse_mode: "Markdown" }
-    );
-  } else if (cmd === "logout") {
-    const userId = ctx.from.id.toString();
-    try {
-      const result = db.prepare("DELETE FROM users WHERE user_id = ?").run(userId);
-      if (result.changes > 0) {
-        ctx.reply("✅ Đã đăng xuất và xóa thông tin tài khoản của bạn khỏi hệ thống.");
-      } else {
-        ctx.reply("ℹ️ Bạn chưa đăng nhập tài khoản nào.");
-      }
-    } catch (e) {
-      console.error(e);
-      ctx.reply("❌ Lỗi khi thực hiện đăng xuất.");
-    }
-  } else if (cmd === "scan") {
-    ctx.reply("Vui lòng gõ lệnh /scan để chạy quét toàn bộ.");
-  }
+  await ctx.answerCbQuery();
+  const command = commandLookup.get(data.replace("cmd_", ""));
+  if (!command) return;
+  await runCommand(command, ctx, `/${command.name}`);
 });
 
-bot.command("login", async (ctx) => {
-  const parts = ctx.message.text.split(/\s+/);
+defineCommand({
+  name: "login", args: "<username> <password> [shop] [nhãn]", section: "account", scope: "private",
+  description: "Đăng nhập / thêm tài khoản shop (nhãn mặc định là username)", example: "/login demo demo saidiait phu"
+}, async (ctx, text) => {
+  const parts = text.split(/\s+/);
   const username = parts[1];
   const password = parts[2];
+  const providerId = parts[3] || DEFAULT_SHOP_PROVIDER;
+  const label = (parts[4] || username).toLowerCase();
   const userId = ctx.from.id.toString();
   const chatId = ctx.chat.id.toString();
 
-  if (!username || !password) {
-    return ctx.reply("Sử dụng: /login <username> <password>");
+  if (!shopProviders.has(providerId)) {
+    return ctx.reply(`❌ Shop "${providerId}" không được hỗ trợ. Các shop hỗ trợ: ${Array.from(shopProviders.keys()).join(", ")}`);
   }
 
   ctx.reply("🔐 Đang xác thực tài khoản...");
 
   try {
-    const balanceData = await getBalance(username, password);
+    const balanceData = await getBalance(username, password, providerId);
     
     if (balanceData && (String(balanceData).includes("đ") || !isNaN(parseFloat(String(balanceData).replace(/[^\d.-]/g, ''))))) {
-      db.prepare("INSERT OR REPLACE INTO users (user_id, chat_id, username, password) VALUES (?, ?, ?, ?)")
-        .run(userId, chatId, username, password);
-      ctx.reply(`✅ Đăng nhập thành công!\n💰 Số dư hiện tại: ${balanceData}\nBot sẽ sử dụng tài khoản này cho các yêu cầu của bạn.`);
+      db.prepare("INSERT OR IGNORE INTO users (user_id, chat_id) VALUES (?, ?)").run(userId, chatId);
+      db.prepare(`
+        INSERT INTO accounts (user_id, label, username, password, provider) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(user_id, label) DO UPDATE SET username = excluded.username, password = excluded.password, provider = excluded.provider
+      `).run(userId, label, username, password, providerId);
+      const account = getAccountByLabel(userId, label);
+      db.prepare("UPDATE users SET chat_id = ?, active_account_id = ? WHERE user_id = ?").run(chatId, account.account_id, userId);
+      log(`Đăng nhập tài khoản ${label}`, userId, null, { category: "auth" });
+      ctx.reply(
+        `✅ Đăng nhập thành công!\n🏷 Tài khoản: ${label} (đang dùng)\n🏪 Shop: ${getShopProvider(providerId).name}\n💰 Số dư hiện tại: ${balanceData}\n` +
+        `Bot sẽ sử dụng tài khoản này cho các yêu cầu của bạn. Xem / đổi tài khoản: /accounts, /use <nhãn>`
+      );
     } else {
       ctx.reply("❌ Đăng nhập thất bại: Tài khoản hoặc mật khẩu không chính xác.");
     }
   } catch (e) {
-    console.error(e);
+    logError("Login Error", e, "auth", userId);
     ctx.reply("❌ Lỗi khi xác thực tài khoản. Vui lòng thử lại sau.");
   }
 });
 
-bot.command("logout", (ctx) => {
+defineCommand({
+  name: "logout", args: "[nhãn]", section: "account", description: "Xoá một tài khoản đã lưu, hoặc đăng xuất tất cả",
+  menu: { text: "🚪 Đăng xuất", order: 12 }
+}, (ctx, text) => {
   const userId = ctx.from.id.toString();
+  const label = text.split(/\s+/)[1];
   try {
+    if (label) {
+      const account = getAccountByLabel(userId, label);
+      if (!account) return ctx.reply(`❌ Không tìm thấy tài khoản "${label}". Dùng /accounts để xem danh sách.`);
+      db.prepare("UPDATE monitors SET account_id = NULL WHERE account_id = ?").run(account.account_id);
+      db.prepare("DELETE FROM accounts WHERE id = ?").run(account.account_id);
+      // Fall back to the oldest remaining account, or forget the user when none is left
+      const next = getAccounts(userId)[0];
+      if (next) {
+        if (account.account_id === account.active_account_id) db.prepare("UPDATE users SET active_account_id = ? WHERE user_id = ?").run(next.account_id, userId);
+      } else {
+        db.prepare("DELETE FROM users WHERE user_id = ?").run(userId);
+      }
+      log(`Xoá tài khoản ${account.label}`, userId, null, { category: "auth" });
+      return ctx.reply(`✅ Đã xoá tài khoản "${account.label}".${next ? ` Tài khoản đang dùng: ${getUser(userId).label}` : " Bạn không còn tài khoản nào."}`);
+    }
+
+    db.prepare("UPDATE monitors SET account_id = NULL WHERE COALESCE(account_user_id, user_id) = ?").run(userId);
+    db.prepare("DELETE FROM accounts WHERE user_id = ?").run(userId);
     const result = db.prepare("DELETE FROM users WHERE user_id = ?").run(userId);
     if (result.changes > 0) {
       ctx.reply("✅ Đã đăng xuất và xóa thông tin tài khoản của bạn khỏi hệ thống.");
@@ -637,79 +3177,152 @@ bot.command("logout", (ctx) => {
       ctx.reply("ℹ️ Bạn chưa đăng nhập tài khoản nào.");
     }
   } catch (e) {
-    console.error(e);
+    logError("Logout Error", e, "auth", userId);
     ctx.reply("❌ Lỗi khi thực hiện đăng xuất.");
   }
 });
 
+// Every "user" passed around carries one shop login: the active account unless a monitor is bound to another
+const ACCOUNT_SELECT = `
+  SELECT u.user_id, u.chat_id, a.id AS account_id, a.label, a.username, a.password, a.provider, a.confirm_buy, u.active_account_id
+  FROM accounts a JOIN users u ON u.user_id = a.user_id
+`;
+
 function getUser(userId: string) {
-  return db.prepare("SELECT * FROM users WHERE user_id = ?").get(userId) as any;
+  return db.prepare(`${ACCOUNT_SELECT} WHERE u.user_id = ? AND a.id = u.active_account_id`).get(userId) as any;
+}
+
+function getAccount(userId: string, accountId: number) {
+  return db.prepare(`${ACCOUNT_SELECT} WHERE u.user_id = ? AND a.id = ?`).get(userId, accountId) as any;
+}
+
+function getAccountByLabel(userId: string, label: string) {
+  return db.prepare(`${ACCOUNT_SELECT} WHERE u.user_id = ? AND a.label = ?`).get(userId, label.toLowerCase()) as any;
+}
+
+function getAccounts(userId: string) {
+  return db.prepare(`${ACCOUNT_SELECT} WHERE u.user_id = ? ORDER BY a.id`).all(userId) as any[];
+}
+
+// The member whose saved accounts the monitor buys with: whoever last ran /bind on it, else its creator
+function monitorAccountOwner(monitor: any): string {
+  return monitor.account_user_id || monitor.user_id;
+}
+
+function getMonitorAccount(monitor: any) {
+  const owner = monitorAccountOwner(monitor);
+  return monitor.account_id ? getAccount(owner, monitor.account_id) : getUser(owner);
 }
 
 async function getProductAmount(userId: string, productId: string): Promise<number | null> {
   try {
     const user = getUser(userId);
     if (!user) return null;
-    const data = await getCachedAPI(user.username, user.password);
+    const data = await getCachedAPI(user.username, user.password, user.provider);
     const categories = data.categories || [];
-    const product = findProductInCategories(categories, productId);
+    const product = findProductInCategories(categories, productId, user.provider);
     return product ? parseInt(product.amount || "0") : null;
   } catch (error) {
-    console.error("getProductAmount Error:", error);
+    logError("getProductAmount Error", error, "scan", userId, { productId });
     return null;
   }
 }
 
-bot.command("logs", (ctx) => {
-  const userId = ctx.from.id.toString();
+const LOG_PAGE_SIZE = 20;
+// Keeps a full page under Telegram's 4096 character limit; the dashboard export has the complete text
+const LOG_LINE_MAX = 150;
+
+defineCommand({
+  name: "logs", role: "viewer", args: "[bộ lọc] [trang]", section: "system", description: "Xem nhật ký hoạt động",
+  example: "/logs buy 2"
+}, (ctx, text, scope) => {
+  const filter = parseLogFilter(text.split(/\s+/).slice(1));
+  if (filter.error) return ctx.reply(`${filter.error} và số trang.\nVí dụ: /logs buy 2`);
+
   try {
-    const userLogs = db.prepare("SELECT * FROM logs WHERE user_id = ? ORDER BY timestamp DESC LIMIT 20").all(userId);
-    
-    if (userLogs.length === 0) {
-      return ctx.reply("Bạn chưa có nhật ký hoạt động nào.");
+    const query: LogQuery = { ...filter.query, owner: scope };
+    const total = countLogs(query);
+    if (total === 0) {
+      return ctx.reply(filter.label.length > 0 ? "Không có nhật ký nào khớp bộ lọc." : "Bạn chưa có nhật ký hoạt động nào.");
     }
+    const totalPages = Math.ceil(total / LOG_PAGE_SIZE);
+    const page = Math.min(filter.page, totalPages);
+    const userLogs = findLogs(query, LOG_PAGE_SIZE, (page - 1) * LOG_PAGE_SIZE);
 
-    let message = "📋 **Nhật ký hoạt động của bạn:**\n\n";
+    const details = [...filter.label, `trang ${page}/${totalPages}`].join(", ");
+    // HTML rather than Markdown: error records quote raw shop responses full of underscores
+    let message = scope.workspaceId ? `📋 <b>Nhật ký hoạt động của workspace</b> (${details}):\n\n` : `📋 <b>Nhật ký hoạt động của bạn</b> (${details}):\n\n`;
     userLogs.reverse().forEach((l: any) => {
-      const time = new Date(l.timestamp).toLocaleTimeString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' });
-      message += `\`[${time}]\` ${l.message}\n`;
+      const time = formatDbTime(l.timestamp);
+      const actor = scope.workspaceId && l.user_id ? `${memberName(scope.workspaceId, l.user_id)}: ` : "";
+      const shown = l.message.length > LOG_LINE_MAX ? `${l.message.substring(0, LOG_LINE_MAX)}…` : l.message;
+      message += `<code>[${time}]</code> ${LOG_LEVEL_ICONS[l.level as LogLevel] || ""}${escapeHtml(actor)}${escapeHtml(shown)}\n`;
     });
+    if (page < totalPages) {
+      message += `\nXem trang cũ hơn: /logs ${[...text.split(/\s+/).slice(1).filter(t => !/^\d+$/.test(t)), page + 1].join(" ")}`;
+    }
     
-    ctx.reply(message, { parse_mode: 'Markdown' });
+    ctx.reply(message, { parse_mode: 'HTML' });
   } catch (e) {
-    console.error("Error fetching logs", e);
+    logError("Error fetching logs", e, "telegram", ctx.from.id.toString());
     ctx.reply("❌ Lỗi khi lấy nhật ký.");
   }
 });
 
-bot.command("clear_logs", (ctx) => {
+defineCommand({
+  name: "clear_logs", role: "owner", section: "system", description: "Xóa nhật ký hoạt động"
+}, (ctx, _text, scope) => {
   const userId = ctx.from.id.toString();
   try {
-    db.prepare("DELETE FROM logs WHERE user_id = ?").run(userId);
-    ctx.reply("✅ Đã xóa toàn bộ nhật ký hoạt động của bạn.");
+    if (scope.workspaceId) {
+      db.prepare("DELETE FROM logs WHERE workspace_id = ?").run(scope.workspaceId);
+    } else {
+      db.prepare("DELETE FROM logs WHERE user_id = ? AND workspace_id IS NULL").run(userId);
+    }
+    ctx.reply(scope.workspaceId ? "✅ Đã xóa toàn bộ nhật ký hoạt động của workspace." : "✅ Đã xóa toàn bộ nhật ký hoạt động của bạn.");
   } catch (e) {
     ctx.reply("❌ Lỗi khi xóa nhật ký.");
   }
 });
 
-bot.command("status", (ctx) => {
-  const monitorCount = db.prepare("SELECT count(*) as count FROM monitors").get() as any;
-  const autoBuyCount = db.prepare("SELECT count(*) as count FROM monitors WHERE auto_buy = 1").get() as any;
+defineCommand({
+  name: "status", section: "system", description: "Kiểm tra trạng thái hoạt động của Bot",
+  menu: { text: "📊 Trạng thái Bot", order: 4 }
+}, (ctx) => {
   const currentTime = new Date().toLocaleTimeString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' });
 
+  // Global counts are only for admins; everyone else just sees that the bot is alive
+  if (!isAdmin(ctx.from.id.toString())) {
+    return ctx.reply(
+      `🤖 **Trạng thái Shopping Monitor:**\n\n` +
+      `🕒 Giờ hệ thống (VN): \`${currentTime}\`\n` +
+      `🔹 Lần quét kho gần nhất: \`${lastScanTime}\`\n\n` +
+      `✅ Bot đang hoạt động bình thường.`,
+      { parse_mode: 'Markdown' }
+    );
+  }
+
+  const userCount = db.prepare("SELECT count(*) as count FROM users").get() as any;
+  const blockedCount = db.prepare("SELECT count(*) as count FROM blocked_users").get() as any;
+  const monitorCount = db.prepare("SELECT count(*) as count FROM monitors").get() as any;
+  const autoBuyCount = db.prepare("SELECT count(DISTINCT monitor_id) as count FROM rules WHERE enabled = 1 AND action != 'notify'").get() as any;
+
   const statusMsg = `🤖 **Trạng thái hệ thống Shopping Monitor:**\n\n` +
     `🕒 Giờ hệ thống (VN): \`${currentTime}\`\n` +
+    `👥 Số người dùng: \`${userCount.count}\`${blockedCount.count > 0 ? ` (bị khoá: \`${blockedCount.count}\`)` : ""}\n` +
     `📊 Tổng số sản phẩm đang theo dõi: \`${monitorCount.count}\`\n` +
     `🛒 Số sản phẩm bật Auto-buy: \`${autoBuyCount.count}\`\n\n` +
     `🔄 **Tiến trình chạy ngầm:**\n` +
-    `🔹 Quét kho & Auto-buy (10s): \`${lastScanTime}\`\n` +
-    `🔹 Báo cáo Azeem (30s): \`${lastAzeemReportTime}\`\n\n` +
-    `✅ Bot đang hoạt động bình thường. (Xem thêm: /sysinfo)`;
+    `🔹 Quét kho & Auto-buy (${SCAN_INTERVAL_SECONDS.general}s): \`${lastScanTime}\`\n` +
+    `🔹 Báo cáo nhóm theo dõi (${SCAN_INTERVAL_SECONDS.group_report}s): \`${lastGroupReportTime}\`\n\n` +
+    `✅ Bot đang hoạt động bình thường. (Xem thêm: /sysinfo, /admin)`;
 
   ctx.reply(statusMsg, { parse_mode: 'Markdown' });
 });
 
-bot.command("sysinfo", (ctx) => {
+defineCommand({
+  name: "sysinfo", section: "system", description: "Xem báo cáo RAM và bộ nhớ đệm"
+}, (ctx) => {
   const memUsage = process.memoryUsage();
   const formatBytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(2)} MB`;
 
@@ -720,31 +3333,216 @@ bot.command("sysinfo", (ctx) => {
     `🔹 External (C++ objects): \`${formatBytes(memUsage.external)}\`\n\n` +
     `📦 **Bộ nhớ đệm (Cache):**\n` +
     `🔹 API Cache: \`${Object.keys(apiCache).length} mục\`\n` +
-    `🔹 Azeem Cache: \`${lastAzeemAmounts.size} mục\`\n\n` +
+    `🔹 Group Report Cache: \`${lastGroupAmounts.size} nhóm\`\n\n` +
     `_Mẹo: Hệ thống đã được tối ưu tự động dọn dẹp cache mỗi phút để giải phóng RAM._`;
 
-  ctx.reply(sysInfoMsg, { parse_mode: 'Markdown' });
+  ctx.reply(sysInfoMsg, { parse_mode: 'Markdown' });
+});
+
+const ADMIN_USAGE =
+  "Sử dụng:\n" +
+  "/admin users - Danh sách người dùng, số sản phẩm theo dõi và lần hoạt động gần nhất\n" +
+  "/admin disable <user_id> - Khoá người dùng\n" +
+  "/admin enable <user_id> - Mở khoá người dùng\n" +
+  `/admin logs [bộ lọc] [số dòng] - Nhật ký toàn hệ thống (tối đa ${MAX_LOGS} dòng gần nhất), lọc như /logs\n` +
+  "/admin broadcast <nội dung> - Gửi thông báo tới tất cả các chat";
+
+// Every chat the bot talks to: users' private chats, monitor chats and workspace groups
+function broadcastChatIds() {
+  const rows = db.prepare(`
+    SELECT chat_id FROM users WHERE chat_id IS NOT NULL AND user_id NOT IN (SELECT user_id FROM blocked_users)
+    UNION SELECT chat_id FROM monitors WHERE chat_id IS NOT NULL AND user_id NOT IN (SELECT user_id FROM blocked_users)
+    UNION SELECT chat_id FROM workspaces
+  `).all() as any[];
+  return rows.map(row => String(row.chat_id));
+}
+
+defineCommand({
+  name: "admin", args: "<users|disable|enable|logs|broadcast>", section: "system", scope: "admin",
+  description: "Quản trị: người dùng, khoá tài khoản, nhật ký hệ thống và gửi thông báo", usage: ADMIN_USAGE
+}, async (ctx, text) => {
+  const userId = ctx.from.id.toString();
+  const parts = text.split(/\s+/);
+  const sub = parts[1].toLowerCase();
+
+  if (sub === "users") {
+    const rows = db.prepare(`
+      SELECT u.user_id, u.last_active,
+        (SELECT COUNT(*) FROM accounts a WHERE a.user_id = u.user_id) as account_count,
+        (SELECT COUNT(*) FROM monitors m WHERE m.user_id = u.user_id) as monitor_count,
+        EXISTS (SELECT 1 FROM blocked_users b WHERE b.user_id = u.user_id) as blocked
+      FROM users u ORDER BY u.last_active DESC
+    `).all() as any[];
+    if (rows.length === 0) return ctx.reply("Chưa có người dùng nào.");
+
+    let message = `👥 Người dùng (${rows.length}):\n\n`;
+    rows.forEach(row => {
+      const lastActive = row.last_active
+        ? new Date(row.last_active + "Z").toLocaleString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' })
+        : "Chưa rõ";
+      message += `${row.blocked ? "⛔" : "🔹"} ${row.user_id} | TK: ${row.account_count} | Theo dõi: ${row.monitor_count} | Hoạt động: ${lastActive}\n`;
+    });
+    if (message.length > 4000) message = message.substring(0, 3900) + "\n... (Danh sách quá dài) ...";
+    return ctx.reply(message);
+  }
+
+  if (sub === "disable" || sub === "enable") {
+    const target = parts[2];
+    if (!target) return ctx.reply(`Sử dụng: /admin ${sub} <user_id>`);
+    if (sub === "disable") {
+      if (isAdmin(target)) return ctx.reply("❌ Không thể khoá quản trị viên.");
+      const info = db.prepare("INSERT OR IGNORE INTO blocked_users (user_id, blocked_by) VALUES (?, ?)").run(target, userId);
+      if (info.changes === 0) return ctx.reply(`ℹ️ Người dùng ${target} đã bị khoá từ trước.`);
+      log(`Admin ${userId} khoá người dùng ${target}`);
+      return ctx.reply(`⛔ Đã khoá người dùng ${target}. Bot sẽ bỏ qua tin nhắn và ngừng quét sản phẩm của họ.`);
+    }
+    const info = db.prepare("DELETE FROM blocked_users WHERE user_id = ?").run(target);
+    if (info.changes === 0) return ctx.reply(`ℹ️ Người dùng ${target} không bị khoá.`);
+    log(`Admin ${userId} mở khoá người dùng ${target}`);
+    return ctx.reply(`✅ Đã mở khoá người dùng ${target}.`);
+  }
+
+  if (sub === "logs") {
+    // The trailing number is a line count here rather than a page
+    const count = Math.min(parseInt(parts.find(part => /^\d+$/.test(part)) || "") || 30, MAX_LOGS);
+    const filter = parseLogFilter(parts.slice(2).filter(part => !/^\d+$/.test(part)));
+    if (filter.error) return ctx.reply(`${filter.error} và số dòng.\nVí dụ: /admin logs errors 50`);
+    const lines = findLogs(filter.query, count).reverse().map(l => {
+      const time = formatDbTime(l.timestamp);
+      return `[${time}] ${l.level.toUpperCase()} [${l.category}] ${l.message}${l.user_id ? ` [${l.user_id}]` : ""}`;
+    });
+    if (lines.length === 0) return ctx.reply("Chưa có nhật ký nào.");
+    let message = `📜 Nhật ký hệ thống (${lines.length} dòng gần nhất):\n\n${lines.join("\n")}`;
+    if (message.length > 4000) message = "... " + message.substring(message.length - 3900);
+    return ctx.reply(message);
+  }
+
+  if (sub === "broadcast") {
+    const content = text.replace(/^\S+\s+\S+\s*/, "").trim();
+    if (!content) return ctx.reply("Sử dụng: /admin broadcast <nội dung>");
+
+    const chatIds = broadcastChatIds();
+    ctx.reply(`📣 Đang gửi thông báo tới ${chatIds.length} chat...`);
+    let sent = 0;
+    for (const chatId of chatIds) {
+      try {
+        await bot.telegram.sendMessage(chatId, `📣 Thông báo từ quản trị viên:\n\n${content}`);
+        sent++;
+      } catch (e: any) {
+        logError(`Broadcast to ${chatId} failed`, e, "telegram");
+      }
+      // Stay well under Telegram's 30 messages/second limit
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    log(`Admin ${userId} gửi thông báo tới ${sent}/${chatIds.length} chat`);
+    return ctx.reply(`✅ Đã gửi thông báo tới ${sent}/${chatIds.length} chat.`);
+  }
+
+  ctx.reply(ADMIN_USAGE);
+});
+
+defineCommand({
+  name: "balance", section: "account", description: "Kiểm tra số dư của tất cả tài khoản",
+  menu: { text: "💰 Kiểm tra số dư", order: 2 }
+}, async (ctx) => {
+  const userId = ctx.from.id.toString();
+  const accounts = getAccounts(userId);
+  if (accounts.length === 0) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi kiểm tra số dư: /login <user> <pass>");
+
+  ctx.reply("💰 Đang kiểm tra số dư...");
+  const balances = await Promise.all(accounts.map(account => getBalance(account.username, account.password, account.provider)));
+  let message = "💰 Số dư tài khoản:\n\n";
+  accounts.forEach((account, i) => {
+    const balanceData = balances[i];
+    const balance = !balanceData ? "❌ Không lấy được" : typeof balanceData === 'string' ? balanceData : (balanceData.money || balanceData.balance || "0");
+    message += `${account.account_id === account.active_account_id ? "✅" : "🔹"} ${account.label} (${getShopProvider(account.provider).name}): ${balance}\n`;
+  });
+  ctx.reply(message);
+});
+
+defineCommand({
+  name: "accounts", section: "account", description: "Danh sách tài khoản shop đã lưu"
+}, (ctx) => {
+  const userId = ctx.from.id.toString();
+  const accounts = getAccounts(userId);
+  if (accounts.length === 0) return ctx.reply("Bạn chưa lưu tài khoản nào. Thêm tài khoản: /login <user> <pass> [shop] [nhãn]");
+
+  let message = "👤 Tài khoản shop của bạn:\n\n";
+  accounts.forEach(account => {
+    const bound = db.prepare("SELECT count(*) as count FROM monitors WHERE account_id = ?").get(account.account_id) as any;
+    message += `${account.account_id === account.active_account_id ? "✅" : "🔹"} ${account.label}${account.account_id === account.active_account_id ? " (đang dùng)" : ""}\n`;
+    message += `   🏪 ${getShopProvider(account.provider).name} | 👤 ${account.username} | 🔐 Xác nhận mua: ${account.confirm_buy ? "Bật" : "Tắt"}\n`;
+    if (bound.count > 0) message += `   📌 Gắn với ${bound.count} sản phẩm theo dõi\n`;
+  });
+  message += "\nĐổi tài khoản: /use <nhãn>\nGắn sản phẩm với tài khoản: /bind <id> <nhãn>\nXoá tài khoản: /logout <nhãn>";
+  ctx.reply(message);
+});
+
+defineCommand({
+  name: "dashboard", args: "[logout]", section: "account", scope: "private",
+  description: "Lấy mã đăng nhập bảng điều khiển web (dùng 1 lần, hết hạn sau 10 phút)"
+}, (ctx, text) => {
+  const userId = ctx.from.id.toString();
+  if ((text.split(/\s+/)[1] || "").toLowerCase() === "logout") {
+    const result = db.prepare("DELETE FROM dashboard_sessions WHERE user_id = ?").run(userId);
+    log(`Đăng xuất ${result.changes} phiên bảng điều khiển web`, userId, null, { category: "auth" });
+    return ctx.reply(`✅ Đã đăng xuất ${result.changes} phiên bảng điều khiển web.`);
+  }
+
+  const code = issueDashboardCode(userId);
+  const baseUrl = (process.env.DASHBOARD_URL || "").replace(/\/+$/, "");
+  let message = `🖥 Mã đăng nhập bảng điều khiển: <code>${code}</code>\n\n`;
+  if (baseUrl) message += `Hoặc mở liên kết: ${escapeHtml(`${baseUrl}/?code=${code}`)}\n\n`;
+  message += `⏳ Mã chỉ dùng được 1 lần và hết hạn sau ${DASHBOARD_CODE_TTL_MS / 60000} phút. Không chia sẻ mã này cho người khác.\n` +
+    `Đăng xuất mọi trình duyệt: /dashboard logout`;
+  ctx.reply(message, { parse_mode: "HTML", link_preview_options: { is_disabled: true } });
 });
 
-bot.command("balance", async (ctx) => {
+defineCommand({
+  name: "use", args: "<nhãn>", section: "account", description: "Đổi tài khoản đang dùng", example: "/use phu"
+}, (ctx, text) => {
   const userId = ctx.from.id.toString();
-  const user = getUser(userId);
-  if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi kiểm tra số dư: /login <user> <pass>");
+  const label = text.split(/\s+/)[1];
+  const account = getAccountByLabel(userId, label);
+  if (!account) return ctx.reply(`❌ Không tìm thấy tài khoản "${label}". Dùng /accounts để xem danh sách.`);
 
-  ctx.reply("💰 Đang kiểm tra số dư...");
-  const balanceData = await getBalance(user.username, user.password);
-  if (balanceData) {
-    const balance = typeof balanceData === 'string' ? balanceData : (balanceData.money || balanceData.balance || "0");
-    ctx.reply(`💰 **Số dư tài khoản:** ${balance}`, { parse_mode: 'Markdown' });
-  } else {
-    ctx.reply("❌ Không thể lấy thông tin số dư.");
+  db.prepare("UPDATE users SET active_account_id = ? WHERE user_id = ?").run(account.account_id, userId);
+  log(`Đổi sang tài khoản ${account.label}`, userId, null, { category: "auth" });
+  ctx.reply(`✅ Đang dùng tài khoản "${account.label}" (${getShopProvider(account.provider).name}). Sản phẩm chưa gắn tài khoản (/bind) sẽ dùng tài khoản này.`);
+});
+
+defineCommand({
+  name: "bind", role: "buyer", args: "<id> <nhãn|active>", section: "account",
+  description: "Gắn sản phẩm theo dõi với một tài khoản để Auto-buy mua bằng tài khoản đó", example: "/bind 21 phu"
+}, (ctx, text, scope) => {
+  const userId = ctx.from.id.toString();
+  const [, id, label] = text.split(/\s+/);
+  const monitor = db.prepare(`SELECT * FROM monitors WHERE (id = ? OR product_id = ?) AND ${scope.where}`).get(id, id, scope.param) as any;
+  if (!monitor) return ctx.reply("❌ Không tìm thấy sản phẩm trong danh sách theo dõi của bạn. Vui lòng dùng /list để kiểm tra lại ID (Monitor ID hoặc Product ID).");
+
+  if (label.toLowerCase() === "active") {
+    // Workspace monitors buy with the account of whoever bound them last; user_id stays the creator
+    db.prepare("UPDATE monitors SET account_id = NULL, account_user_id = ? WHERE id = ?").run(userId, monitor.id);
+    return ctx.reply(`✅ ${monitor.product_name} sẽ dùng tài khoản đang dùng (/use).`);
+  }
+
+  const account = getAccountByLabel(userId, label);
+  if (!account) return ctx.reply(`❌ Không tìm thấy tài khoản "${label}". Dùng /accounts để xem danh sách.`);
+  if (account.provider !== monitor.provider) {
+    return ctx.reply(`❌ Tài khoản "${account.label}" thuộc shop ${account.provider}, còn sản phẩm này thuộc shop ${monitor.provider}.`);
   }
+
+  db.prepare("UPDATE monitors SET account_id = ?, account_user_id = ? WHERE id = ?").run(account.account_id, userId, monitor.id);
+  log(`Gắn ${monitor.product_name} với tài khoản ${account.label}`, userId, scope.workspaceId, { category: "monitor", productId: monitor.product_id });
+  ctx.reply(`✅ Auto-buy cho ${monitor.product_name} sẽ dùng tài khoản "${account.label}".`);
 });
 
-bot.command("check", async (ctx) => {
-  const productId = ctx.message.text.split(/\s+/)[1] || "78";
+defineCommand({
+  name: "check", args: "[id]", section: "products", description: "Kiểm tra nhanh số lượng (mặc định ID 78)"
+}, async (ctx, text) => {
+  const productId = text.split(/\s+/)[1] || "78";
   const userId = ctx.from.id.toString();
-  log(`Kiểm tra số lượng ID ${productId}`, userId);
+  log(`Kiểm tra số lượng ID ${productId}`, userId, null, { category: "scan", productId });
   ctx.reply(`🔍 Đang kiểm tra số lượng cho ID: ${productId}...`);
   
   const amount = await getProductAmount(userId, productId);
@@ -756,96 +3554,336 @@ bot.command("check", async (ctx) => {
   }
 });
 
-bot.command("azeem", async (ctx) => {
-  const targetIds = ["21", "78", "108"];
+defineCommand({
+  name: "azeem", args: "[nhóm]", section: "groups", description: "Kiểm tra nhanh kho của nhóm (mặc định: tất cả nhóm)",
+  menu: { text: "📦 Kho nhóm theo dõi", order: 3 }
+}, async (ctx, text) => {
   const userId = ctx.from.id.toString();
   const chatId = ctx.chat.id.toString();
   const user = getUser(userId);
-  if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi kiểm tra kho Azeem: /login <user> <pass>");
-  
-  try {
-    const data = await getCachedAPI(user.username, user.password);
-    const categories = data.categories || [];
-    
-    let report = "📋 **Trạng thái kho Azeem:**\n\n";
-    for (const id of targetIds) {
-      const product = findProductInCategories(categories, id);
-      const name = product ? product.name : `ID ${id}`;
-      const amount = product ? product.amount : "N/A";
-      const price = product ? product.price : "N/A";
-      report += `🔹 **${name}** (ID: ${id})\n   📦 Số lượng: **${amount}**\n   💰 Giá: ${price}\n\n`;
-    }
-    report += `_Cập nhật lúc: ${new Date().toLocaleTimeString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' })}_`;
+  if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi kiểm tra kho: /login <user> <pass>");
 
-    const oldMsgId = lastAzeemMessageIds.get(chatId);
-    if (oldMsgId) {
-      try { await ctx.deleteMessage(oldMsgId); } catch (e) { /* ignore */ }
-    }
+  const name = text.split(/\s+/)[1];
+  const groups = findWatchGroups(userId, name);
+  if (groups.length === 0) return ctx.reply(missingGroupMessage(name));
 
-    const newMsg = await ctx.reply(report, { parse_mode: 'Markdown' });
-    lastAzeemMessageIds.set(chatId, newMsg.message_id);
+  try {
+    for (const group of groups) {
+      await sendGroupReport(chatId, user, group);
+    }
+    log(`Đã kiểm tra thủ công kho nhóm ${groups.map(group => group.name).join(", ")}`, userId, null, { category: "scan" });
   } catch (error) {
     ctx.reply("❌ Lỗi khi lấy dữ liệu từ API.");
   }
 });
 
-bot.command("auto_setup", async (ctx) => {
-  const targetIds = ["21", "78", "108"];
+defineCommand({
+  name: "auto_setup", args: "[nhóm]", section: "groups", description: "Thêm các ID trong nhóm vào danh sách theo dõi (mặc định: tất cả nhóm)",
+  menu: { text: "⚙️ Auto Setup (Nhóm)", order: 9 }
+}, async (ctx, text) => {
   const userId = ctx.from.id.toString();
   const chatId = ctx.chat.id.toString();
   const user = getUser(userId);
   if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi thiết lập tự động: /login <user> <pass>");
 
-  ctx.reply(`🛠 Đang thiết lập theo dõi tự động cho các ID: ${targetIds.join(", ")}...`);
+  const name = text.split(/\s+/)[1];
+  const groups = findWatchGroups(userId, name);
+  if (groups.length === 0) return ctx.reply(missingGroupMessage(name));
 
   try {
-    const data = await getCachedAPI(user.username, user.password);
-    const categories = data.categories || [];
-
-    for (const id of targetIds) {
-      const product = findProductInCategories(categories, id);
-      if (product) {
-        try {
-          const existing = db.prepare("SELECT * FROM monitors WHERE user_id = ? AND product_id = ?").get(userId, id);
-          if (!existing) {
-            const currentAmount = parseInt(product.amount) || 0;
-            db.prepare("INSERT INTO monitors (chat_id, user_id, product_id, url, product_name, last_amount) VALUES (?, ?, ?, ?, ?, ?)")
-              .run(chatId, userId, product.id, product.url, product.name, currentAmount);
-            ctx.reply(`✅ Đã thêm theo dõi: ${product.name} (ID: ${id}) - Hiện có: ${currentAmount}`);
-          } else {
-            ctx.reply(`ℹ️ ID ${id} đã có trong danh sách theo dõi.`);
-          }
-        } catch (e) {
-          console.error(e);
-          ctx.reply(`❌ Lỗi khi thêm ID ${id}`);
-        }
-      } else {
-        ctx.reply(`❌ Không tìm thấy sản phẩm ID ${id} trên API.`);
-      }
-    }
-    ctx.reply("✨ Hoàn tất! Bot sẽ thông báo ngay khi số lượng (amount) thay đổi.");
+    const productIds = Array.from(new Set(groups.flatMap(group => getGroupProductIds(group.id))));
+    await monitorProducts(text => ctx.reply(text), personalScope(userId), chatId, user, productIds);
   } catch (error) {
     ctx.reply("❌ Lỗi kết nối API.");
   }
 });
 
-bot.command("buy", async (ctx) => {
-  const parts = ctx.message.text.split(/\s+/);
+const GROUP_USAGE =
+  "Sử dụng:\n" +
+  "/group - Xem các nhóm của bạn\n" +
+  "/group create <tên> <id...> - Tạo nhóm (VD: /group create azeem 21 108)\n" +
+  "/group add <tên> <id...> - Thêm sản phẩm vào nhóm\n" +
+  "/group remove <tên> <id...> - Bớt sản phẩm khỏi nhóm\n" +
+  "/group delete <tên> - Xoá nhóm\n" +
+  "/group report <tên> - Xem kho của nhóm ngay\n" +
+  "/group sub <tên> <1|0> - Bật/Tắt báo cáo biến động kho định kỳ\n" +
+  "/group monitor <tên> - Thêm cả nhóm vào danh sách theo dõi";
+
+defineCommand({
+  name: "group", args: "[create|add|remove|delete|report|sub|monitor] [tên] [id...]", section: "groups",
+  description: "Quản lý nhóm sản phẩm theo dõi", example: "/group create azeem 21 108"
+}, async (ctx, text) => {
+  const userId = ctx.from.id.toString();
+  const chatId = ctx.chat.id.toString();
+  const parts = text.split(/\s+/);
+  const sub = (parts[1] || "").toLowerCase();
+  const name = (parts[2] || "").toLowerCase();
+  const ids = parts.slice(3).filter(id => /^\d+$/.test(id));
+
+  if (!sub) {
+    const groups = getWatchGroups(userId);
+    if (groups.length === 0) return ctx.reply("Bạn chưa có nhóm sản phẩm nào.\n\n" + GROUP_USAGE);
+    let message = "🗂 **Nhóm sản phẩm của bạn:**\n\n";
+    groups.forEach(group => {
+      message += `🔹 ${group.name}: ${getGroupProductIds(group.id).join(", ") || "(trống)"}${group.subscribed ? " | 🔔 Báo cáo định kỳ" : ""}\n`;
+    });
+    return ctx.reply(message);
+  }
+
+  if (!name) return ctx.reply(GROUP_USAGE);
+  if (sub === "create") {
+    if (ids.length === 0) return ctx.reply("Sử dụng: /group create <tên> <id...>\nVí dụ: /group create azeem 21 108");
+    if (getWatchGroup(userId, name)) return ctx.reply(`❌ Nhóm "${name}" đã tồn tại. Dùng /group add ${name} <id...> để thêm sản phẩm.`);
+    const info = db.prepare("INSERT INTO watch_groups (user_id, chat_id, name) VALUES (?, ?, ?)").run(userId, chatId, name);
+    const insertItem = db.prepare("INSERT OR IGNORE INTO watch_group_items (group_id, product_id) VALUES (?, ?)");
+    ids.forEach(id => insertItem.run(info.lastInsertRowid, id));
+    log(`Tạo nhóm ${name}: ${ids.join(", ")}`, userId, null, { category: "monitor" });
+    return ctx.reply(`✅ Đã tạo nhóm "${name}" với các ID: ${ids.join(", ")}\nBật báo cáo định kỳ: /group sub ${name} 1`);
+  }
+
+  const group = getWatchGroup(userId, name);
+  if (!group) return ctx.reply(`❌ Không tìm thấy nhóm "${name}". Dùng /group để xem các nhóm của bạn.`);
+
+  if (sub === "add" || sub === "remove") {
+    if (ids.length === 0) return ctx.reply(`Sử dụng: /group ${sub} <tên> <id...>`);
+    const stmt = sub === "add"
+      ? db.prepare("INSERT OR IGNORE INTO watch_group_items (group_id, product_id) VALUES (?, ?)")
+      : db.prepare("DELETE FROM watch_group_items WHERE group_id = ? AND product_id = ?");
+    ids.forEach(id => stmt.run(group.id, id));
+    log(`${sub === "add" ? "Thêm" : "Bớt"} ${ids.join(", ")} ${sub === "add" ? "vào" : "khỏi"} nhóm ${name}`, userId, null, { category: "monitor" });
+    return ctx.reply(`✅ Nhóm "${name}" hiện gồm: ${getGroupProductIds(group.id).join(", ") || "(trống)"}`);
+  }
+
+  if (sub === "delete") {
+    db.prepare("DELETE FROM watch_group_items WHERE group_id = ?").run(group.id);
+    db.prepare("DELETE FROM watch_groups WHERE id = ?").run(group.id);
+    lastGroupAmounts.delete(group.id);
+    log(`Xoá nhóm ${name}`, userId, null, { category: "monitor" });
+    return ctx.reply(`🗑 Đã xoá nhóm "${name}".`);
+  }
+
+  if (sub === "sub") {
+    const val = parts[3];
+    if (val !== "1" && val !== "0") return ctx.reply(`Sử dụng: /group sub ${name} <1|0>`);
+    // Reports go to the chat where the subscription was made
+    db.prepare("UPDATE watch_groups SET subscribed = ?, chat_id = ? WHERE id = ?").run(parseInt(val), chatId, group.id);
+    lastGroupAmounts.delete(group.id);
+    log(`${val === "1" ? "Bật" : "Tắt"} báo cáo định kỳ cho nhóm ${name}`, userId, null, { category: "monitor" });
+    return ctx.reply(`✅ Đã ${val === "1" ? "BẬT" : "TẮT"} báo cáo biến động kho định kỳ cho nhóm "${name}".`);
+  }
+
+  const user = getUser(userId);
+  if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước: /login <user> <pass>");
+
+  if (sub === "report") {
+    try {
+      await sendGroupReport(chatId, user, group);
+    } catch (error) {
+      ctx.reply("❌ Lỗi khi lấy dữ liệu từ API.");
+    }
+    return;
+  }
+
+  if (sub === "monitor") {
+    try {
+      await monitorProducts(text => ctx.reply(text), personalScope(userId), chatId, user, getGroupProductIds(group.id));
+    } catch (error) {
+      ctx.reply("❌ Lỗi kết nối API.");
+    }
+    return;
+  }
+
+  ctx.reply(GROUP_USAGE);
+});
+
+const WORKSPACE_USAGE =
+  "Sử dụng (trong nhóm chat):\n" +
+  "/workspace - Xem thành viên và quyền\n" +
+  "/workspace create [tên] - Biến nhóm này thành workspace dùng chung\n" +
+  "/workspace join - Tham gia workspace (quyền Người xem)\n" +
+  "/workspace role <owner|buyer|viewer> [user_id] - Đổi quyền (trả lời tin nhắn của thành viên hoặc ghi user_id)\n" +
+  "/workspace kick [user_id] - Mời thành viên ra khỏi workspace\n" +
+  "/workspace leave - Rời workspace\n" +
+  "/workspace delete - Xoá workspace, trả sản phẩm theo dõi về cho người đã thêm\n\n" +
+  "Quyền: Chủ sở hữu (quản lý thành viên), Người mua (mua hàng, đổi Auto-buy / hẹn giờ), Người xem (xem và nhận thông báo)";
+
+function displayName(from: { username?: string; first_name: string }) {
+  return from.username ? `@${from.username}` : from.first_name;
+}
+
+// The member a /workspace role|kick targets: the author of the replied message, or a user_id argument
+function workspaceTarget(ctx: CommandContext, arg: string | undefined) {
+  const replied = (ctx.message as any)?.reply_to_message?.from;
+  return replied && !replied.is_bot ? replied.id.toString() : arg;
+}
+
+function countOwners(workspaceId: number) {
+  return (db.prepare("SELECT COUNT(*) as count FROM workspace_members WHERE workspace_id = ? AND role = 'owner'").get(workspaceId) as any).count;
+}
+
+// Monitors that bought with the account of a member who leaves switch to an owner's active account
+function removeWorkspaceMember(workspace: any, userId: string) {
+  db.prepare("DELETE FROM workspace_members WHERE workspace_id = ? AND user_id = ?").run(workspace.id, userId);
+  const owner = db.prepare("SELECT user_id FROM workspace_members WHERE workspace_id = ? AND role = 'owner' ORDER BY joined_at LIMIT 1").get(workspace.id) as any;
+  if (owner) {
+    db.prepare("UPDATE monitors SET account_user_id = ?, account_id = NULL WHERE workspace_id = ? AND COALESCE(account_user_id, user_id) = ?")
+      .run(owner.user_id, workspace.id, userId);
+  }
+}
+
+defineCommand({
+  name: "workspace", args: "[create|join|role|kick|leave|delete]", section: "team", scope: "group",
+  description: "Workspace dùng chung cho cả nhóm: theo dõi, hẹn giờ và nhật ký chung theo quyền",
+  example: "/workspace create Team A", usage: WORKSPACE_USAGE
+}, (ctx, text) => {
+  const userId = ctx.from.id.toString();
+  const chatId = ctx.chat.id.toString();
+  const parts = text.split(/\s+/);
+  const sub = (parts[1] || "").toLowerCase();
+  const workspace = getChatWorkspace(chatId);
+
+  if (sub === "create") {
+    if (workspace) return ctx.reply(`ℹ️ Nhóm này đã là workspace "${workspace.name}".`);
+    const name = parts.slice(2).join(" ") || ("title" in ctx.chat ? ctx.chat.title : "") || "Workspace";
+    const info = db.prepare("INSERT INTO workspaces (chat_id, name, owner_id) VALUES (?, ?, ?)").run(chatId, name, userId);
+    db.prepare("INSERT INTO workspace_members (workspace_id, user_id, display_name, role) VALUES (?, ?, ?, 'owner')")
+      .run(info.lastInsertRowid, userId, displayName(ctx.from));
+    log(`Tạo workspace "${name}"`, userId, Number(info.lastInsertRowid));
+    return ctx.reply(`✅ Đã tạo workspace "${name}". Các thành viên gửi /workspace join để tham gia.\n\n${WORKSPACE_USAGE}`);
+  }
+
+  if (!workspace) return ctx.reply(`ℹ️ Nhóm này chưa có workspace.\n\n${WORKSPACE_USAGE}`);
+  const member = getWorkspaceMember(workspace.id, userId);
+
+  if (sub === "join") {
+    if (member) return ctx.reply(`ℹ️ Bạn đã là ${ROLE_LABELS[member.role as WorkspaceRole]} của workspace "${workspace.name}".`);
+    db.prepare("INSERT INTO workspace_members (workspace_id, user_id, display_name) VALUES (?, ?, ?)").run(workspace.id, userId, displayName(ctx.from));
+    log(`Tham gia workspace`, userId, workspace.id);
+    return ctx.reply(`✅ ${displayName(ctx.from)} đã tham gia workspace "${workspace.name}" với quyền ${ROLE_LABELS.viewer}.`);
+  }
+
+  if (!sub) {
+    const members = getWorkspaceMembers(workspace.id);
+    let message = `👥 Workspace "${workspace.name}" (${members.length} thành viên):\n\n`;
+    members.forEach(m => {
+      message += `• ${m.display_name} (${m.user_id}) - ${ROLE_LABELS[m.role as WorkspaceRole]}\n`;
+    });
+    const monitorCount = (db.prepare("SELECT COUNT(*) as count FROM monitors WHERE workspace_id = ?").get(workspace.id) as any).count;
+    message += `\n📦 Sản phẩm theo dõi chung: ${monitorCount}`;
+    if (!member) message += "\n\nGửi /workspace join để tham gia.";
+    return ctx.reply(message);
+  }
+
+  if (!member) return ctx.reply(`👥 Bạn chưa tham gia workspace "${workspace.name}". Gửi /workspace join để tham gia.`);
+
+  if (sub === "leave") {
+    if (member.role === "owner" && countOwners(workspace.id) === 1) {
+      return ctx.reply("❌ Bạn là chủ sở hữu duy nhất. Hãy trao quyền owner cho thành viên khác hoặc dùng /workspace delete.");
+    }
+    removeWorkspaceMember(workspace, userId);
+    log(`Rời workspace`, userId, workspace.id);
+    return ctx.reply(`👋 ${member.display_name} đã rời workspace "${workspace.name}".`);
+  }
+
+  if (sub !== "role" && sub !== "kick" && sub !== "delete") return ctx.reply(WORKSPACE_USAGE);
+  if (member.role !== "owner") return ctx.reply(`⛔ Chỉ ${ROLE_LABELS.owner} mới dùng được /workspace ${sub}.`);
+
+  if (sub === "delete") {
+    // Shared monitors go back to the member who added them
+    db.prepare("UPDATE monitors SET workspace_id = NULL WHERE workspace_id = ?").run(workspace.id);
+    db.prepare("DELETE FROM logs WHERE workspace_id = ?").run(workspace.id);
+    db.prepare("DELETE FROM workspace_members WHERE workspace_id = ?").run(workspace.id);
+    db.prepare("DELETE FROM workspaces WHERE id = ?").run(workspace.id);
+    log(`Xoá workspace "${workspace.name}"`, userId);
+    return ctx.reply(`🗑 Đã xoá workspace "${workspace.name}". Các sản phẩm theo dõi chung đã được trả về cho người đã thêm.`);
+  }
+
+  const role = sub === "role" ? (parts[2] || "").toLowerCase() as WorkspaceRole : null;
+  if (role && !WORKSPACE_ROLES.includes(role)) return ctx.reply(WORKSPACE_USAGE);
+  const targetId = workspaceTarget(ctx, parts[sub === "role" ? 3 : 2]);
+  if (!targetId) return ctx.reply(`❌ Hãy trả lời tin nhắn của thành viên hoặc ghi user_id.\n\n${WORKSPACE_USAGE}`);
+  const target = getWorkspaceMember(workspace.id, targetId);
+  if (!target) return ctx.reply(`❌ ${targetId} chưa tham gia workspace này.`);
+  if (target.role === "owner" && role !== "owner" && countOwners(workspace.id) === 1) {
+    return ctx.reply("❌ Workspace phải luôn có ít nhất một chủ sở hữu.");
+  }
+
+  if (role) {
+    db.prepare("UPDATE workspace_members SET role = ? WHERE workspace_id = ? AND user_id = ?").run(role, workspace.id, targetId);
+    log(`Đổi quyền ${target.display_name} thành ${ROLE_LABELS[role]}`, userId, workspace.id);
+    return ctx.reply(`✅ ${target.display_name} giờ là ${ROLE_LABELS[role]}.`);
+  }
+
+  removeWorkspaceMember(workspace, targetId);
+  log(`Mời ${target.display_name} ra khỏi workspace`, userId, workspace.id);
+  ctx.reply(`✅ Đã mời ${target.display_name} ra khỏi workspace "${workspace.name}".`);
+});
+
+defineCommand({
+  name: "buy", role: "buyer", args: "<id> [số lượng]", section: "buying", description: "Mua tài khoản (xem giá và xác nhận trước khi mua)",
+  example: "/buy 21 1"
+}, async (ctx, text, scope) => {
+  const parts = text.split(/\s+/);
   const productId = parts[1];
   const amount = parts[2] || "1";
   const userId = ctx.from.id.toString();
   const user = getUser(userId);
   if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi mua hàng: /login <user> <pass>");
 
-  if (!productId) return ctx.reply("Sử dụng: /buy <id> <amount>\nVí dụ: /buy 21 1");
+  await requestPurchase(ctx, userId, scope.workspaceId, user, productId, amount);
+});
+
+defineCommand({
+  name: "confirmbuy", args: "<on|off>", section: "buying", description: "Bật/Tắt bước xác nhận trước khi mua cho tài khoản đang dùng",
+  example: "/confirmbuy off"
+}, (ctx, text) => {
+  const value = (text.split(/\s+/)[1] || "").toLowerCase();
+  const userId = ctx.from.id.toString();
+  if (value !== "on" && value !== "off") return ctx.reply("Sử dụng: /confirmbuy <on|off>\nVí dụ: /confirmbuy off (mua ngay khi gửi /buy, không hỏi lại)");
+
+  const user = getUser(userId);
+  if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước: /login <user> <pass>");
+  db.prepare("UPDATE accounts SET confirm_buy = ? WHERE id = ?").run(value === "on" ? 1 : 0, user.account_id);
+
+  log(`${value === "on" ? "Bật" : "Tắt"} xác nhận trước khi mua cho tài khoản ${user.label}`, userId, null, { category: "buy" });
+  ctx.reply(value === "on"
+    ? `✅ Đã BẬT xác nhận cho tài khoản "${user.label}": /buy sẽ hiển thị giá, tổng tiền và chờ bạn bấm Xác nhận.`
+    : `⚡ Đã TẮT xác nhận cho tài khoản "${user.label}": /buy và nút Mua sẽ mua ngay lập tức.`);
+});
 
-  log(`Yêu cầu mua ID ${productId} số lượng ${amount}`, userId);
+// Manual purchase shared by /buy and the catalog "Mua 1" button, run once confirmed.
+// workspaceId is the scope the command ran in, so the order and its logs are shared with that workspace
+async function purchaseProduct(ctx: Context, userId: string, workspaceId: number | null, user: any, productId: string, amount: string) {
+  const chatId = ctx.chat!.id.toString();
+  log(`Yêu cầu mua ID ${productId} số lượng ${amount}`, userId, workspaceId, { category: "buy", productId });
   ctx.reply(`🛒 Đang thực hiện lệnh mua sản phẩm ID: ${productId} với số lượng: ${amount}...`);
 
+  // Look up name and price from the cached catalog so the order ledger has them
+  let product: ReturnType<typeof findProductInCategories> = null;
   try {
-    const response = await axios.get(`https://shop.saidiait.top/api/BResource.php?username=${user.username}&password=${user.password}&id=${productId}&amount=${amount}`);
-    
-    const data = response.data;
+    const catalog = await getCachedAPI(user.username, user.password, user.provider);
+    product = findProductInCategories(catalog.categories || [], productId, user.provider);
+  } catch (e) {
+    // Purchase can still go through without catalog details
+  }
+
+  const orderInput: OrderInput = {
+    userId,
+    workspaceId,
+    chatId,
+    provider: user.provider,
+    productId,
+    productName: product?.name,
+    quantity: parseInt(amount) || 1,
+    unitPrice: parseCurrency(product?.price),
+    source: "manual"
+  };
+
+  let orderId: number | null | undefined;
+
+  try {
+    const data = await getShopProvider(user.provider).purchase(user.username, user.password, productId, amount);
+    orderId = recordOrder({ ...orderInput, response: data });
     let jsonStr = JSON.stringify(data, null, 2);
     
     if (jsonStr.length > 4000) {
@@ -853,225 +3891,633 @@ bot.command("buy", async (ctx) => {
     }
 
     if (data.status === "success") {
-      log(`Mua thành công ID ${productId} (SL: ${amount})`, userId);
-      await ctx.reply(`✅ Mua hàng thành công!`);
+      log(`Mua thành công ID ${productId} (SL: ${amount})`, userId, workspaceId, { category: "buy", productId });
+      await ctx.reply(`✅ Mua hàng thành công!${orderId ? ` (Đơn #${orderId} - xem lại bằng /orders ${orderId})` : ""}`);
 
       try {
-        let fileContent = "";
-        const processAccount = (acc: string) => {
-          const parts = acc.split('|');
-          if (parts.length >= 2) {
-            return `${parts[0].trim()}|${parts[1].trim()}`;
-          }
-          return acc.trim();
-        };
-
-        if (data.data && Array.isArray(data.data.lists)) {
-          fileContent = data.data.lists.map((a: any) => {
-            if (a && typeof a === 'object' && a.account) return processAccount(String(a.account));
-            return JSON.stringify(a);
-          }).join("\n");
-        } else if (Array.isArray(data.data)) {
-          fileContent = data.data.map((a: any) => {
-            if (typeof a === 'string') return processAccount(a);
-            if (a && typeof a === 'object' && a.account) return processAccount(String(a.account));
-            return JSON.stringify(a);
-          }).join("\n");
-        } else if (typeof data.data === "string") {
-          fileContent = data.data.split('\n').filter((line: string) => line.trim() !== '').map(processAccount).join("\n");
+        if (orderId) {
+          await sendOrderFile(chatId, orderId);
         } else {
-          fileContent = jsonStr;
+          await ctx.replyWithDocument({
+            source: Buffer.from(extractPurchasedAccounts(data), 'utf-8'),
+            filename: getAccountFileName(data, productId)
+          });
         }
-        
-        const fileBuffer = Buffer.from(fileContent, 'utf-8');
-        
-        let fileName = `accounts_${productId}_${Date.now()}.txt`;
-        if (data.data && data.data.name && data.data.amount && data.data.trans_id) {
-          const safeName = String(data.data.name).replace(/[^a-zA-Z0-9]/g, '');
-          fileName = `${safeName}_${data.data.amount}_${data.data.trans_id}.txt`;
-        }
-
-        await ctx.replyWithDocument({
-          source: fileBuffer,
-          filename: fileName
-        });
       } catch (fileErr) {
-        console.error("Failed to send document:", fileErr);
+        logError("Failed to send document", fileErr, "telegram", userId, { productId });
       }
     } else {
       let errorMsg = data.message || "Lỗi không xác định từ API";
       if (errorMsg.toLowerCase().includes("số dư") || errorMsg.toLowerCase().includes("không đủ tiền") || errorMsg.toLowerCase().includes("balance")) {
         errorMsg = "Số dư không đủ";
       }
-      log(`Mua thất bại ID ${productId}: ${errorMsg}`, userId);
+      log(`Mua thất bại ID ${productId}: ${errorMsg}`, userId, workspaceId, { level: "warn", category: "buy", productId });
       ctx.reply(`❌ Mua hàng thất bại: ${errorMsg}\n\n<pre>${jsonStr}</pre>`, { parse_mode: 'HTML' });
     }
   } catch (error: any) {
-    console.error("Buy API Error:", error.response?.data || error.message);
+    logError("Buy API Error", error, "buy", userId, { productId });
     const detail = error.response?.data ? JSON.stringify(error.response.data) : error.message;
+    if (orderId === undefined) recordOrder({ ...orderInput, error: detail });
     ctx.reply(`❌ Lỗi kết nối API mua hàng: ${detail}`);
   }
+}
+
+// Purchase Confirmation - the token behind "Xác nhận" is single-use and expires, so a double tap never buys twice
+const PURCHASE_CONFIRM_TTL_MS = 60 * 1000;
+
+interface PendingPurchase {
+  userId: string;
+  workspaceId: number | null;
+  // The shop account the quote was made on - a /use or /bind before confirming must not switch it
+  accountId: number;
+  provider: string;
+  productId: string;
+  amount: string;
+  expiresAt: number;
+}
+
+const pendingPurchases = new Map<string, PendingPurchase>();
+
+// Shows name, price, total and balance after purchase; accounts with confirm_buy = 0 buy straight away
+async function requestPurchase(ctx: Context, userId: string, workspaceId: number | null, user: any, productId: string, amount: string) {
+  if (!user.confirm_buy) return purchaseProduct(ctx, userId, workspaceId, user, productId, amount);
+
+  const now = Date.now();
+  pendingPurchases.forEach((pending, token) => {
+    if (pending.expiresAt < now) pendingPurchases.delete(token);
+  });
+
+  const quantity = parseInt(amount) || 1;
+  const [catalog, balanceStr] = await Promise.all([
+    getCachedAPI(user.username, user.password, user.provider).catch(() => null),
+    getBalance(user.username, user.password, user.provider)
+  ]);
+  const product = catalog ? findProductInCategories(catalog.categories || [], productId, user.provider) : null;
+  if (!product) return ctx.reply(`❌ Không tìm thấy sản phẩm ID ${productId} trên shop. Dùng /search hoặc /catalog để tìm đúng ID.`);
+
+  const unitPrice = parseCurrency(product.price);
+  const total = unitPrice * quantity;
+  let text = `🛒 <b>Xác nhận mua hàng</b>\n\n` +
+    `📦 Sản phẩm: ${escapeHtml(product.name)} (ID: ${product.id})\n` +
+    `📊 Còn trong kho: ${product.amount}\n` +
+    `🔢 Số lượng: ${quantity}\n` +
+    `💰 Đơn giá: ${unitPrice.toLocaleString('vi-VN')}đ\n` +
+    `💵 Tổng tiền: <b>${total.toLocaleString('vi-VN')}đ</b>\n`;
+  if (balanceStr) {
+    const balance = parseCurrency(balanceStr);
+    text += `🏦 Số dư sau khi mua: ${(balance - total).toLocaleString('vi-VN')}đ${balance < total ? " ⚠️ Không đủ số dư" : ""}\n`;
+  }
+  text += `\n⏳ Yêu cầu hết hạn sau ${PURCHASE_CONFIRM_TTL_MS / 1000} giây. Tắt bước này: /confirmbuy off`;
+
+  const token = crypto.randomBytes(8).toString("hex");
+  pendingPurchases.set(token, {
+    userId, workspaceId, accountId: user.account_id, provider: user.provider, productId: String(product.id), amount: String(quantity), expiresAt: now + PURCHASE_CONFIRM_TTL_MS
+  });
+  ctx.reply(text, {
+    parse_mode: 'HTML',
+    reply_markup: {
+      inline_keyboard: [[
+        { text: "✅ Xác nhận", callback_data: `buy:ok:${token}` },
+        { text: "❌ Huỷ", callback_data: `buy:no:${token}` }
+      ]]
+    }
+  });
+}
+
+bot.action(/^buy:(ok|no):([0-9a-f]+)$/, async (ctx) => {
+  const [, choice, token] = ctx.match;
+  const userId = ctx.from!.id.toString();
+  const pending = pendingPurchases.get(token);
+  if (!pending) return ctx.answerCbQuery("Yêu cầu này đã được xử lý hoặc đã hết hạn");
+  if (pending.userId !== userId) return ctx.answerCbQuery("Đây không phải yêu cầu mua của bạn");
+
+  // Removed before the first await so a second tap finds nothing
+  pendingPurchases.delete(token);
+  ctx.editMessageReplyMarkup(undefined).catch(() => {});
+
+  if (pending.expiresAt < Date.now()) {
+    await ctx.answerCbQuery("Yêu cầu đã hết hạn");
+    return ctx.reply("⌛ Yêu cầu mua đã hết hạn. Gửi lại /buy để xem giá mới.");
+  }
+  if (choice === "no") {
+    await ctx.answerCbQuery("Đã huỷ");
+    return ctx.reply("❎ Đã huỷ yêu cầu mua.");
+  }
+
+  const user = getAccount(userId, pending.accountId);
+  if (!user || user.provider !== pending.provider) {
+    await ctx.answerCbQuery("Tài khoản không còn tồn tại");
+    return ctx.reply("⚠️ Tài khoản shop dùng để báo giá không còn tồn tại. Gửi lại /buy để xem giá trên tài khoản hiện tại.");
+  }
+  await ctx.answerCbQuery("Đang mua...");
+  await purchaseProduct(ctx, userId, pending.workspaceId, user, pending.productId, pending.amount);
+});
+
+defineCommand({
+  name: "orders", args: "[mã đơn]", section: "buying", description: "Lịch sử đơn hàng / gửi lại file tài khoản"
+}, async (ctx, text) => {
+  const ref = text.split(/\s+/)[1];
+  const userId = ctx.from.id.toString();
+
+  if (!ref) {
+    const rows = db.prepare("SELECT * FROM orders WHERE user_id = ? ORDER BY id DESC LIMIT 15").all(userId) as any[];
+    if (rows.length === 0) return ctx.reply("Bạn chưa có đơn hàng nào.");
+
+    let message = "🧾 Lịch sử đơn hàng (15 đơn gần nhất):\n\n";
+    rows.forEach((row) => {
+      const icon = row.status === "success" ? "✅" : "❌";
+      message += `${icon} Đơn #${row.id} | ${formatDbTime(row.created_at)} | ${row.source === "auto" ? "Auto-buy" : "Thủ công"}\n`;
+      message += `📦 ${row.product_name} (ID: ${row.product_id}) x${row.quantity}\n`;
+      if (row.status === "success") {
+        message += `💰 ${Number(row.total_price).toLocaleString('vi-VN')}đ | Mã GD: ${row.trans_id || "N/A"}\n\n`;
+      } else {
+        message += `⚠️ ${row.message || "Lỗi không xác định"}\n\n`;
+      }
+    });
+    message += "Gửi lại file tài khoản: /orders <mã đơn | trans_id>";
+    return ctx.reply(message);
+  }
+
+  const order = db.prepare("SELECT * FROM orders WHERE user_id = ? AND (trans_id = ? OR id = ?) ORDER BY id DESC").get(userId, ref, ref) as any;
+  if (!order) {
+    return ctx.reply(`❌ Không tìm thấy đơn hàng "${ref}". Dùng /orders để xem danh sách.`);
+  }
+
+  await ctx.reply(
+    `🧾 Đơn #${order.id} (${order.status === "success" ? "Thành công" : "Thất bại"})\n` +
+    `🕒 ${formatDbTime(order.created_at)}\n` +
+    `📦 ${order.product_name} (ID: ${order.product_id}) x${order.quantity}\n` +
+    `💰 Đơn giá: ${Number(order.unit_price).toLocaleString('vi-VN')}đ | Tổng: ${Number(order.total_price).toLocaleString('vi-VN')}đ\n` +
+    `🔖 Mã GD: ${order.trans_id || "N/A"}` +
+    (order.message ? `\n💬 ${order.message}` : "")
+  );
+
+  if (order.status !== "success") return;
+  try {
+    const sent = await sendOrderFile(ctx.chat.id.toString(), order.id);
+    if (!sent) ctx.reply("ℹ️ Đơn hàng này không có dữ liệu tài khoản để gửi lại.");
+  } catch (e) {
+    logError("Failed to resend order file", e, "telegram", ctx.from.id.toString());
+    ctx.reply("❌ Lỗi khi gửi lại file tài khoản.");
+  }
+});
+
+defineCommand({
+  name: "history", args: "<id> [24h|7d]", section: "products", description: "Biểu đồ lịch sử số lượng kho",
+  example: "/history 21 7d"
+}, async (ctx, text) => {
+  const parts = text.split(/\s+/);
+  const productId = parts[1];
+  const rangeKey = parts[2] || "24h";
+  const userId = ctx.from.id.toString();
+  const user = getUser(userId);
+  if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi xem lịch sử kho: /login <user> <pass>");
+
+  if (!productId || !HISTORY_RANGES[rangeKey]) {
+    return ctx.reply("Sử dụng: /history <id> [24h|7d]\nVí dụ: /history 21 7d");
+  }
+
+  try {
+    const history = getStockHistory(user.provider, productId, HISTORY_RANGES[rangeKey]);
+    if (history.points.length === 0) {
+      return ctx.reply(`ℹ️ Chưa có dữ liệu lịch sử cho ID ${productId} trong ${rangeKey}. Bot chỉ ghi nhận sản phẩm đang được theo dõi (/monitor).`);
+    }
+
+    const { stats } = history;
+    const monitor = db.prepare("SELECT product_name FROM monitors WHERE product_id = ? AND provider = ? LIMIT 1").get(productId, user.provider) as any;
+    const priceInfo = stats.maxPrice > 0
+      ? (stats.minPrice === stats.maxPrice ? `${stats.minPrice.toLocaleString('vi-VN')}đ` : `${stats.minPrice.toLocaleString('vi-VN')}đ - ${stats.maxPrice.toLocaleString('vi-VN')}đ`)
+      : "N/A";
+    const caption =
+      `📈 Lịch sử kho ${monitor?.product_name || `ID ${productId}`} (${rangeKey})\n\n` +
+      `📦 Thấp nhất: ${stats.minAmount} | Cao nhất: ${stats.maxAmount}\n` +
+      `🔄 Số lần nhập hàng: ${stats.restocks}\n` +
+      `💰 Giá: ${priceInfo}\n` +
+      `📝 Số lần thay đổi: ${stats.changes}`;
+
+    const chart = renderStockChartPng(history.points, history.from, history.to, rangeKey);
+    await ctx.replyWithPhoto({ source: chart, filename: `history_${productId}_${rangeKey}.png` }, { caption });
+  } catch (e) {
+    logError("History Command Error", e, "scan", userId, { productId });
+    ctx.reply("❌ Lỗi khi tạo biểu đồ lịch sử kho.");
+  }
+});
+
+defineCommand({
+  name: "get", args: "<id>", section: "products", description: "Xem chi tiết JSON của sản phẩm"
+}, async (ctx, text) => {
+  const productId = text.split(/\s+/)[1];
+  const userId = ctx.from.id.toString();
+  const user = getUser(userId);
+  if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi lấy dữ liệu: /login <user> <pass>");
+
+  ctx.reply(`🔍 Đang lấy dữ liệu chi tiết cho ID: ${productId}...`);
+  
+  try {
+    const data = await getCachedAPI(user.username, user.password, user.provider);
+    const categories = data.categories || [];
+    
+    let foundProduct = null;
+    for (const cat of categories) {
+      const product = (cat.accounts || []).find((p: any) => String(p.id) === String(productId));
+      if (product) {
+        foundProduct = product;
+        break;
+      }
+    }
+
+    if (foundProduct) {
+      const jsonStr = JSON.stringify(foundProduct, null, 2);
+      ctx.reply(`✅ Dữ liệu API cho ID ${productId}:\n\n<pre>${jsonStr}</pre>`, { parse_mode: 'HTML' });
+    } else {
+      ctx.reply(`❌ Không tìm thấy sản phẩm ID ${productId} trong bất kỳ Category nào.`);
+    }
+  } catch (error) {
+    ctx.reply("❌ Lỗi khi truy vấn API.");
+  }
+});
+
+defineCommand({
+  name: "monitor", role: "buyer", args: "<id>", section: "products", description: "Thêm sản phẩm vào danh sách theo dõi",
+  example: "/monitor 101"
+}, async (ctx, text, scope) => {
+  const productId = text.split(/\s+/)[1];
+  const userId = ctx.from.id.toString();
+  const chatId = ctx.chat.id.toString();
+  const user = getUser(userId);
+  if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi thêm theo dõi: /login <user> <pass>");
+
+  log(`Thêm theo dõi ID ${productId}`, userId, scope.workspaceId, { category: "monitor", productId });
+  ctx.reply(`🔍 Đang kiểm tra thông tin sản phẩm ID: ${productId}...`);
+
+  try {
+    const data = await getCachedAPI(user.username, user.password, user.provider);
+    const categories = data.categories || [];
+    const product = findProductInCategories(categories, productId, user.provider);
+    
+    if (!product) {
+      return ctx.reply("❌ Không tìm thấy sản phẩm với ID này trên hệ thống.");
+    }
+
+    ctx.reply(addMonitor(scope, chatId, user, product));
+  } catch (e: any) {
+    logError("Monitor Command Error", e, "monitor", userId, { productId });
+    ctx.reply(`❌ Có lỗi xảy ra khi lưu thông tin: ${e.message}`);
+  }
+});
+
+// Inserts a catalog product into the user's (or workspace's) monitors; null when it is already monitored
+function createMonitor(scope: MonitorScope, chatId: string, user: any, product: any): number | null {
+  const existing = db.prepare(`SELECT * FROM monitors WHERE ${scope.where} AND product_id = ?`).get(scope.param, product.id);
+  if (existing) return null;
+
+  const stmt = db.prepare("INSERT INTO monitors (chat_id, user_id, workspace_id, product_id, url, product_name, last_amount, provider) VALUES (?, ?, ?, ?, ?, ?, ?, ?)");
+  const info = stmt.run(chatId, scope.userId, scope.workspaceId, product.id, product.url, product.name, parseInt(product.amount) || 0, user.provider);
+  return Number(info.lastInsertRowid);
+}
+
+function removeMonitor(monitorId: number) {
+  db.prepare("DELETE FROM rules WHERE monitor_id = ?").run(monitorId);
+  db.prepare("DELETE FROM schedules WHERE monitor_id = ?").run(monitorId);
+  db.prepare("DELETE FROM monitors WHERE id = ?").run(monitorId);
+}
+
+// Adds a catalog product to the user's (or workspace's) monitors and returns the reply text
+function addMonitor(scope: MonitorScope, chatId: string, user: any, product: any) {
+  const monitorId = createMonitor(scope, chatId, user, product);
+  if (monitorId === null) {
+    return `ℹ️ Sản phẩm ${product.name} (ID: ${product.id}) đã có trong danh sách theo dõi của bạn.`;
+  }
+
+  return `✅ Đã thêm vào danh sách theo dõi!\n\n` +
+    `📦 Sản phẩm: ${product.name}\n` +
+    `💰 Giá: ${product.price}\n` +
+    `🔢 Số lượng hiện tại: ${parseInt(product.amount) || 0}\n` +
+    `🆔 Monitor ID: ${monitorId}\n` +
+    `🔗 URL: ${product.url}`;
+}
+
+// Catalog Browser - callback data: cat:l:<page> (categories), cat:c:<cat>:<page> (products), cat:d|m|b:<productId>:<cat>:<page>
+const CATALOG_PAGE_SIZE = 6;
+
+function escapeHtml(text: any) {
+  return String(text ?? "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function paginationRow(prefix: string, page: number, totalPages: number) {
+  const row: { text: string; callback_data: string }[] = [];
+  if (page > 0) row.push({ text: "◀️ Trước", callback_data: `${prefix}:${page - 1}` });
+  row.push({ text: `${page + 1}/${totalPages}`, callback_data: `${prefix}:${page}` });
+  if (page < totalPages - 1) row.push({ text: "Sau ▶️", callback_data: `${prefix}:${page + 1}` });
+  return row;
+}
+
+function renderCatalogCategories(categories: any[], page: number) {
+  const totalPages = Math.max(1, Math.ceil(categories.length / CATALOG_PAGE_SIZE));
+  page = Math.min(Math.max(0, page), totalPages - 1);
+  const slice = categories.slice(page * CATALOG_PAGE_SIZE, (page + 1) * CATALOG_PAGE_SIZE);
+
+  let text = `🗂 <b>Danh mục sản phẩm</b> (${categories.length})\n\n`;
+  const keyboard = slice.map((cat, i) => {
+    const index = page * CATALOG_PAGE_SIZE + i;
+    const accounts = cat.accounts || [];
+    const inStock = accounts.filter((p: any) => (parseInt(p.amount) || 0) > 0).length;
+    text += `📁 ${escapeHtml(cat.name)} - ${accounts.length} sản phẩm (${inStock} còn hàng)\n`;
+    return [{ text: `📁 ${cat.name}`, callback_data: `cat:c:${index}:0` }];
+  });
+  if (totalPages > 1) keyboard.push(paginationRow("cat:l", page, totalPages));
+  return { text, keyboard };
+}
+
+function renderCatalogProducts(categories: any[], catIndex: number, page: number) {
+  const cat = categories[catIndex];
+  if (!cat) return renderCatalogCategories(categories, 0);
+  const accounts = cat.accounts || [];
+  const totalPages = Math.max(1, Math.ceil(accounts.length / CATALOG_PAGE_SIZE));
+  page = Math.min(Math.max(0, page), totalPages - 1);
+  const slice = accounts.slice(page * CATALOG_PAGE_SIZE, (page + 1) * CATALOG_PAGE_SIZE);
+
+  let text = `📁 <b>${escapeHtml(cat.name)}</b>\n\n`;
+  if (slice.length === 0) text += "Danh mục này chưa có sản phẩm.\n";
+  const keyboard = slice.map((product: any) => {
+    const amount = parseInt(product.amount) || 0;
+    text += `${amount > 0 ? "🟢" : "🔴"} <b>#${product.id}</b> ${escapeHtml(product.name)}\n   📦 ${amount} | 💰 ${escapeHtml(product.price)}\n`;
+    const ref = `${product.id}:${catIndex}:${page}`;
+    return [
+      { text: `➕ Theo dõi #${product.id}`, callback_data: `cat:m:${ref}` },
+      { text: `🛒 Mua 1`, callback_data: `cat:b:${ref}` },
+      { text: `ℹ️ Chi tiết`, callback_data: `cat:d:${ref}` }
+    ];
+  });
+  if (totalPages > 1) keyboard.push(paginationRow(`cat:c:${catIndex}`, page, totalPages));
+  keyboard.push([{ text: "⬆️ Danh mục", callback_data: "cat:l:0" }]);
+  return { text, keyboard };
+}
+
+function renderCatalogDetails(product: any, catIndex: number, page: number) {
+  const ref = `${product.id}:${catIndex}:${page}`;
+  let jsonStr = JSON.stringify(product, null, 2);
+  if (jsonStr.length > 3500) jsonStr = jsonStr.substring(0, 3400) + "\n... (Dữ liệu quá dài) ...";
+  return {
+    text: `ℹ️ <b>${escapeHtml(product.name)}</b> (ID: ${product.id})\n\n<pre>${escapeHtml(jsonStr)}</pre>`,
+    keyboard: [
+      [
+        { text: "➕ Theo dõi", callback_data: `cat:m:${ref}` },
+        { text: "🛒 Mua 1", callback_data: `cat:b:${ref}` }
+      ],
+      [{ text: "⬅️ Quay lại", callback_data: `cat:c:${catIndex}:${page}` }]
+    ]
+  };
+}
+
+defineCommand({
+  name: "search", args: "<từ khoá>", section: "products", description: "Tìm sản phẩm theo tên (không cần dấu)",
+  example: "/search azeem vip"
+}, async (ctx, text) => {
+  const query = text.split(/\s+/).slice(1).join(" ");
+  const userId = ctx.from.id.toString();
+  const user = getUser(userId);
+  if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi tìm kiếm: /login <user> <pass>");
+
+  try {
+    const data = await getCachedAPI(user.username, user.password, user.provider);
+    const results = searchCatalog(data.categories || [], query, 10);
+    if (results.length === 0) {
+      return ctx.reply(`🔍 Không tìm thấy sản phẩm nào khớp với "${query}". Thử /catalog để duyệt danh mục.`);
+    }
+
+    let text = `🔍 <b>Kết quả cho "${escapeHtml(query)}"</b> (${results.length})\n\n`;
+    const keyboard = results.map((result, i) => {
+      text += `${i + 1}. ${result.amount > 0 ? "🟢" : "🔴"} <b>#${result.id}</b> ${escapeHtml(result.name)}\n`;
+      text += `   📁 ${escapeHtml(result.category)} | 📦 ${result.amount} | 💰 ${escapeHtml(result.price)}\n`;
+      // Reuses the catalog browser's monitor/details actions
+      return [
+        { text: `➕ Theo dõi #${result.id}`, callback_data: `cat:m:${result.id}:${result.categoryIndex}:0` },
+        { text: `ℹ️ Chi tiết`, callback_data: `cat:d:${result.id}:${result.categoryIndex}:0` }
+      ];
+    });
+    ctx.reply(text, { parse_mode: 'HTML', reply_markup: { inline_keyboard: keyboard } });
+  } catch (error) {
+    ctx.reply("❌ Lỗi khi truy vấn API.");
+  }
+});
+
+const NEWPRODUCTS_USAGE =
+  "Sử dụng:\n" +
+  "/newproducts on|off - Bật/Tắt thông báo sản phẩm mới, gỡ bỏ, đổi tên, đổi giá\n" +
+  "/newproducts category <tên danh mục | off> - Chỉ báo trong danh mục này\n" +
+  "/newproducts keyword <từ khoá | off> - Chỉ báo sản phẩm khớp từ khoá (không cần dấu)";
+
+defineCommand({
+  name: "newproducts", args: "[on|off|category|keyword]", section: "products",
+  description: "Báo khi shop thêm sản phẩm mới, gỡ bỏ, đổi tên hoặc đổi giá"
+}, (ctx, text) => {
+  const userId = ctx.from.id.toString();
+  const chatId = ctx.chat.id.toString();
+  const parts = text.split(/\s+/);
+  const sub = (parts[1] || "").toLowerCase();
+  const value = parts.slice(2).join(" ").trim();
+
+  if (sub === "on" || sub === "off") {
+    db.prepare(`
+      INSERT INTO catalog_subscriptions (user_id, chat_id, enabled) VALUES (?, ?, ?)
+      ON CONFLICT(user_id) DO UPDATE SET chat_id = excluded.chat_id, enabled = excluded.enabled
+    `).run(userId, chatId, sub === "on" ? 1 : 0);
+    log(`${sub === "on" ? "Bật" : "Tắt"} thông báo thay đổi danh mục`, userId, null, { category: "monitor" });
+    return ctx.reply(sub === "on"
+      ? "✅ Đã BẬT thông báo khi shop thêm sản phẩm mới, gỡ sản phẩm, đổi tên hoặc đổi giá."
+      : "✅ Đã TẮT thông báo thay đổi danh mục.");
+  }
+
+  if (sub === "category" || sub === "keyword") {
+    if (!value) return ctx.reply(NEWPRODUCTS_USAGE);
+    const filter = value.toLowerCase() === "off" ? null : value;
+    const column = sub === "category" ? "category_filter" : "keyword_filter";
+    db.prepare(`
+      INSERT INTO catalog_subscriptions (user_id, chat_id, enabled, ${column}) VALUES (?, ?, 1, ?)
+      ON CONFLICT(user_id) DO UPDATE SET ${column} = excluded.${column}
+    `).run(userId, chatId, filter);
+    return ctx.reply(filter
+      ? `✅ Chỉ báo các thay đổi có ${sub === "category" ? "danh mục" : "từ khoá"}: "${filter}"`
+      : `✅ Đã bỏ bộ lọc ${sub === "category" ? "danh mục" : "từ khoá"}.`);
+  }
+
+  if (sub) return ctx.reply(NEWPRODUCTS_USAGE);
+
+  const subscription = db.prepare("SELECT * FROM catalog_subscriptions WHERE user_id = ?").get(userId) as any;
+  ctx.reply(
+    `🛍 **Thông báo thay đổi danh mục:** ${subscription?.enabled ? "✅ Bật" : "❌ Tắt"}\n` +
+    `📁 Danh mục: ${subscription?.category_filter || "Tất cả"}\n` +
+    `🔎 Từ khoá: ${subscription?.keyword_filter || "Không"}\n\n` +
+    NEWPRODUCTS_USAGE
+  );
 });
 
-bot.command("get", async (ctx) => {
-  const productId = ctx.message.text.split(/\s+/)[1];
+defineCommand({
+  name: "catalog", section: "products", description: "Duyệt danh mục sản phẩm (theo dõi / mua bằng nút bấm)"
+}, async (ctx) => {
   const userId = ctx.from.id.toString();
   const user = getUser(userId);
-  if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi lấy dữ liệu: /login <user> <pass>");
-
-  if (!productId) return ctx.reply("Sử dụng: /get <product_id>");
+  if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi xem danh mục: /login <user> <pass>");
 
-  ctx.reply(`🔍 Đang lấy dữ liệu chi tiết cho ID: ${productId}...`);
-  
   try {
-    const data = await getCachedAPI(user.username, user.password);
-    const categories = data.categories || [];
-    
-    let foundProduct = null;
-    for (const cat of categories) {
-      const product = (cat.accounts || []).find((p: any) => String(p.id) === String(productId));
-      if (product) {
-        foundProduct = product;
-        break;
-      }
-    }
-
-    if (foundProduct) {
-      const jsonStr = JSON.stringify(foundProduct, null, 2);
-      ctx.reply(`✅ Dữ liệu API cho ID ${productId}:\n\n<pre>${jsonStr}</pre>`, { parse_mode: 'HTML' });
-    } else {
-      ctx.reply(`❌ Không tìm thấy sản phẩm ID ${productId} trong bất kỳ Category nào.`);
-    }
+    const data = await getCachedAPI(user.username, user.password, user.provider);
+    const { text, keyboard } = renderCatalogCategories(data.categories || [], 0);
+    ctx.reply(text, { parse_mode: 'HTML', reply_markup: { inline_keyboard: keyboard } });
   } catch (error) {
     ctx.reply("❌ Lỗi khi truy vấn API.");
   }
 });
 
-bot.command("monitor", async (ctx) => {
-  const productId = ctx.message.text.split(/\s+/)[1];
-  const userId = ctx.from.id.toString();
-  const chatId = ctx.chat.id.toString();
+bot.action(/^cat:([lcdmb]):(.+)$/, async (ctx) => {
+  const [, view, arg] = ctx.match;
+  const userId = ctx.from!.id.toString();
+  const chatId = ctx.chat?.id?.toString() || userId;
   const user = getUser(userId);
-  if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi thêm theo dõi: /login <user> <pass>");
-
-  if (!productId) return ctx.reply("Vui lòng nhập ID sản phẩm: /monitor <product_id>\nVí dụ: /monitor 101");
-
-  log(`Thêm theo dõi ID ${productId}`, userId);
-  ctx.reply(`🔍 Đang kiểm tra thông tin sản phẩm ID: ${productId}...`);
+  if (!user) {
+    await ctx.answerCbQuery("Bạn chưa đăng nhập");
+    return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước: /login <user> <pass>");
+  }
 
   try {
-    const data = await getCachedAPI(user.username, user.password);
+    const data = await getCachedAPI(user.username, user.password, user.provider);
     const categories = data.categories || [];
-    const product = findProductInCategories(categories, productId);
-    
-    if (!product) {
-      return ctx.reply("❌ Không tìm thấy sản phẩm với ID này trên hệ thống.");
-    }
+    const [first, second, third] = arg.split(':');
+    let rendered: { text: string; keyboard: any[] } | null = null;
 
-    // Check if already monitoring
-    const existing = db.prepare("SELECT * FROM monitors WHERE user_id = ? AND product_id = ?").get(userId, product.id);
-    if (existing) {
-      return ctx.reply(`ℹ️ Sản phẩm ${product.name} (ID: ${product.id}) đã có trong danh sách theo dõi của bạn.`);
+    if (view === "l") {
+      rendered = renderCatalogCategories(categories, parseInt(first) || 0);
+    } else if (view === "c") {
+      rendered = renderCatalogProducts(categories, parseInt(first) || 0, parseInt(second) || 0);
+    } else {
+      const product = findProductInCategories(categories, first, user.provider);
+      if (!product) {
+        await ctx.answerCbQuery("Không tìm thấy sản phẩm");
+        return;
+      }
+      if (view === "d") {
+        rendered = renderCatalogDetails(product, parseInt(second) || 0, parseInt(third) || 0);
+      } else {
+        // Same scope and role checks as /monitor and /buy typed in this chat
+        const scope = resolveChatScope(chatId, userId, "buyer", view === "m" ? "Theo dõi" : "Mua hàng");
+        await ctx.answerCbQuery();
+        if (typeof scope === "string") return ctx.reply(scope);
+        if (view === "m") {
+          log(`Thêm theo dõi ID ${product.id} từ danh mục`, userId, scope.workspaceId, { category: "monitor", productId: product.id });
+          return ctx.reply(addMonitor(scope, chatId, user, product));
+        }
+        return requestPurchase(ctx, userId, scope.workspaceId, user, String(product.id), "1");
+      }
     }
 
-    const currentAmount = parseInt(product.amount) || 0;
-    const stmt = db.prepare("INSERT INTO monitors (chat_id, user_id, product_id, url, product_name, last_amount) VALUES (?, ?, ?, ?, ?, ?)");
-    const info = stmt.run(chatId, userId, product.id, product.url, product.name, currentAmount);
-
-    ctx.reply(
-      `✅ Đã thêm vào danh sách theo dõi!\n\n` +
-      `📦 Sản phẩm: ${product.name}\n` +
-      `💰 Giá: ${product.price}\n` +
-      `🔢 Số lượng hiện tại: ${currentAmount}\n` +
-      `🆔 Monitor ID: ${info.lastInsertRowid}\n` +
-      `🔗 URL: ${product.url}`
-    );
-  } catch (e: any) {
-    console.error("Monitor Command Error:", e);
-    ctx.reply(`❌ Có lỗi xảy ra khi lưu thông tin: ${e.message}`);
+    await ctx.answerCbQuery();
+    try {
+      await ctx.editMessageText(rendered.text, { parse_mode: 'HTML', reply_markup: { inline_keyboard: rendered.keyboard } });
+    } catch (e: any) {
+      // Pressing the current page button again edits to identical content
+      if (!String(e.description || e.message).includes("message is not modified")) throw e;
+    }
+  } catch (error) {
+    logError("Catalog Error", error, "scan", userId);
+    ctx.reply("❌ Lỗi khi truy vấn API.");
   }
 });
 
-bot.command("list", (ctx) => {
-  const userId = ctx.from.id.toString();
-  const rows = db.prepare("SELECT * FROM monitors WHERE user_id = ?").all(userId);
+defineCommand({
+  name: "list", role: "viewer", section: "products", description: "Danh sách sản phẩm đang theo dõi",
+  menu: { text: "📋 Danh sách theo dõi", order: 1 }
+}, (ctx, _text, scope) => {
+  const rows = db.prepare(`SELECT * FROM monitors WHERE ${scope.where}`).all(scope.param);
   if (rows.length === 0) return ctx.reply("Bạn chưa theo dõi sản phẩm nào.");
 
   let message = "📋 Danh sách sản phẩm đang theo dõi:\n\n";
   rows.forEach((row: any) => {
-    const autoBuyStatus = row.auto_buy ? "✅ Bật" : "❌ Tắt";
-    const limitInfo = row.buy_limit > 0 ? `, Giới hạn: ${row.bought_count}/${row.buy_limit}` : "";
-    const scheduleInfo = row.schedule_time ? `\n⏰ Hẹn giờ: Bật lúc ${row.schedule_time} (SL: ${row.schedule_amount}, GH: ${row.schedule_limit === 0 ? "Không" : row.schedule_limit})` : "";
+    const rules = getMonitorRules(row.id);
+    const autoBuyStatus = rules.some(r => r.enabled && r.action !== 'notify') ? "✅ Bật" : "❌ Tắt";
+    const schedules = db.prepare("SELECT * FROM schedules WHERE monitor_id = ? ORDER BY id").all(row.id) as any[];
+    const priceInfo = row.max_price > 0 ? ` (Giá tối đa: ${Number(row.max_price).toLocaleString('vi-VN')}đ)` : "";
+    const alertInfo = row.price_alert ? "\n📉 Báo giảm giá: Bật" : "";
     
     message += `🔹 Monitor ID: ${row.id}\n`;
     message += `📦 Sản phẩm: ${row.product_name}\n`;
     message += `🆔 Product ID: ${row.product_id}\n`;
+    message += `🏪 Shop: ${row.provider}\n`;
+    if (scope.workspaceId) message += `🙋 Người thêm: ${memberName(scope.workspaceId, row.user_id)}\n`;
+    if (row.account_id) message += `👤 Tài khoản: ${getAccount(monitorAccountOwner(row), row.account_id)?.label || "?"}\n`;
     message += `📊 Trạng thái: ${row.status}\n`;
-    message += `🛒 Auto-buy: ${autoBuyStatus} (SL: ${row.auto_buy_amount || 1}${limitInfo})${scheduleInfo}\n`;
+    message += `🛒 Auto-buy: ${autoBuyStatus}${priceInfo}${alertInfo}\n`;
+    rules.forEach((rule: any) => {
+      message += `   ${describeRule(rule)}\n`;
+    });
+    schedules.forEach((schedule: any) => {
+      message += `   ${describeSchedule(schedule)}\n`;
+    });
     message += `🔗 URL: ${row.url}\n\n`;
   });
   ctx.reply(message);
 });
 
-const userProcessLocks = new Set<string>();
+const accountProcessLocks = new Set<string>();
 
 async function processMonitors(monitors: any[]) {
   try {
-    // Group monitors by user to minimize API calls
-    const userMonitors = new Map<string, any[]>();
+    // Group monitors by the shop account they use (bound or active) to minimize API calls
+    const accountMonitors = new Map<string, any[]>();
     for (const m of monitors) {
-      if (!userMonitors.has(m.user_id)) userMonitors.set(m.user_id, []);
-      userMonitors.get(m.user_id)!.push(m);
+      const key = `${monitorAccountOwner(m)}:${m.account_id || "active"}`;
+      if (!accountMonitors.has(key)) accountMonitors.set(key, []);
+      accountMonitors.get(key)!.push(m);
     }
 
-    const promises = Array.from(userMonitors.entries()).map(async ([userId, items]) => {
-      if (userProcessLocks.has(userId)) {
-        return; // Skip if this user is already being processed
+    const promises = Array.from(accountMonitors.entries()).map(async ([key, items]) => {
+      if (accountProcessLocks.has(key)) {
+        return; // Skip if this account is already being processed
       }
-      userProcessLocks.add(userId);
+      accountProcessLocks.add(key);
       
       try {
-        const user = getUser(userId);
+        const userId = monitorAccountOwner(items[0]);
+        const user = getMonitorAccount(items[0]);
         if (!user) return;
         
         try {
-          const data = await getCachedAPI(user.username, user.password);
+          const data = await getCachedAPI(user.username, user.password, user.provider);
           const categories = data.categories || [];
 
           for (const item of items) {
+            let releaseBudget: (() => void) | null = null;
             try {
               // Fetch latest state from DB to prevent race conditions and stale data
               const currentItem = db.prepare("SELECT * FROM monitors WHERE id = ?").get(item.id) as any;
               if (!currentItem) continue;
+              // Monitors created for another shop can't be checked with this login
+              if (currentItem.provider !== user.provider) continue;
 
-              // Check schedule
-              if (currentItem.schedule_time) {
-                const now = new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Ho_Chi_Minh' }));
-                const nowStr = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
-                if (nowStr === currentItem.schedule_time) {
-                  // Time matched! Enable auto-buy
-                  db.prepare("UPDATE monitors SET auto_buy = 1, auto_buy_amount = ?, buy_limit = ?, bought_count = 0, schedule_time = NULL, status = 'monitoring' WHERE id = ?")
-                    .run(currentItem.schedule_amount, currentItem.schedule_limit, currentItem.id);
-                  
-                  // Update currentItem object so it processes immediately
-                  currentItem.auto_buy = 1;
-                  currentItem.auto_buy_amount = currentItem.schedule_amount;
-                  currentItem.buy_limit = currentItem.schedule_limit;
-                  currentItem.schedule_time = null;
-                  
-                  log(`⏰ Tự động bật Auto-buy theo lịch hẹn cho ${currentItem.product_name}`, userId);
-                  await bot.telegram.sendMessage(currentItem.chat_id, `⏰ **Đến giờ hẹn!** Đã tự động BẬT Auto-buy cho sản phẩm: ${currentItem.product_name}`);
-                }
-              }
-
-              const product = findProductInCategories(categories, currentItem.product_id);
+              const product = findProductInCategories(categories, currentItem.product_id, currentItem.provider);
               if (!product) continue;
 
               const currentAmount = parseInt(product.amount) || 0;
+              const currentPrice = parseCurrency(product.price);
+              recordStockSnapshot(currentItem.provider, currentItem.product_id, currentAmount, currentPrice);
               const lastAmount = currentItem.last_amount || 0;
+              const lastPrice = currentItem.last_price || 0;
+
+              if (currentPrice > 0 && currentPrice !== lastPrice) {
+                if (currentItem.price_alert && lastPrice > 0 && currentPrice < lastPrice) {
+                  log(`Giá giảm: ${currentItem.product_name} ${lastPrice.toLocaleString('vi-VN')}đ → ${currentPrice.toLocaleString('vi-VN')}đ`, userId, currentItem.workspace_id, { category: "scan", productId: currentItem.product_id });
+                  await bot.telegram.sendMessage(currentItem.chat_id,
+                    `📉 GIẢM GIÁ! (ID: ${currentItem.product_id})\n\n` +
+                    `📦 Sản phẩm: ${currentItem.product_name}\n` +
+                    `💰 Giá: ${lastPrice.toLocaleString('vi-VN')}đ → ${currentPrice.toLocaleString('vi-VN')}đ\n` +
+                    `🔢 Số lượng hiện tại: ${currentAmount}`
+                  );
+                }
+                db.prepare("UPDATE monitors SET last_price = ? WHERE id = ?").run(currentPrice, currentItem.id);
+              }
 
               if (currentAmount === 0) {
                 if (lastAmount > 0) {
+                  publishEvent({ type: "out_of_stock", userId, monitorId: currentItem.id, productId: currentItem.product_id, productName: currentItem.product_name, amount: 0 });
                   await bot.telegram.sendMessage(currentItem.chat_id, `🚫 HẾT HÀNG! (ID: ${currentItem.product_id})\n📦 ${currentItem.product_name}`);
                   db.prepare("UPDATE monitors SET status = 'monitoring', last_amount = 0 WHERE id = ?").run(currentItem.id);
                 } else {
@@ -1086,25 +4532,89 @@ async function processMonitors(monitors: any[]) {
                   `📦 Sản phẩm: ${currentItem.product_name}\n` +
                   `🆔 ID: ${currentItem.product_id}\n` +
                   `🔗 URL: ${currentItem.url}`;
+                publishEvent({ type: "in_stock", userId, monitorId: currentItem.id, productId: currentItem.product_id, productName: currentItem.product_name, amount: currentAmount });
                 await bot.telegram.sendMessage(currentItem.chat_id, notifyMsg);
               }
 
-              if (currentItem.auto_buy) {
-                let buyAmount = currentItem.auto_buy_amount || 1;
-                const buyLimit = currentItem.buy_limit || 0;
-                const currentBought = currentItem.bought_count || 0;
+              const rules = getMonitorRules(currentItem.id, true);
+              const buyRules = rules.filter(r => r.action !== 'notify');
+              const notifyRules = rules.filter(r => r.action === 'notify');
+              const stockChanged = currentAmount !== lastAmount || currentPrice !== lastPrice || currentItem.status === 'monitoring';
+
+              // Balance is only fetched if a rule asks for it, and at most once per monitor per scan
+              let cachedBalance: number | null | undefined;
+              const ruleContext: RuleContext = {
+                stock: currentAmount,
+                price: currentPrice,
+                getBalance: async () => {
+                  if (cachedBalance === undefined) {
+                    const balanceData = await getBalance(user.username, user.password, user.provider);
+                    cachedBalance = balanceData ? parseCurrency(typeof balanceData === 'string' ? balanceData : (balanceData.money || balanceData.balance)) : null;
+                  }
+                  return cachedBalance;
+                }
+              };
+
+              if (stockChanged) {
+                for (const rule of notifyRules) {
+                  if (await ruleMatches(rule, ruleContext)) {
+                    await bot.telegram.sendMessage(currentItem.chat_id,
+                      `🔔 Quy tắc #${rule.id} khớp điều kiện!\n\n` +
+                      `📦 Sản phẩm: ${currentItem.product_name}\n` +
+                      `🔢 Số lượng: ${currentAmount}\n` +
+                      `💰 Giá: ${product.price}`
+                    );
+                  }
+                }
+              }
 
-                if (buyLimit > 0) {
-                  if (currentBought >= buyLimit) {
-                    log(`Giới hạn mua đã đạt (${currentBought}/${buyLimit}). Tắt Auto-buy cho ${currentItem.product_name}`, userId);
-                    db.prepare("UPDATE monitors SET auto_buy = 0, auto_buy_amount = 0, buy_limit = 0, bought_count = 0, last_amount = ? WHERE id = ?").run(currentAmount, currentItem.id);
-                    await bot.telegram.sendMessage(currentItem.chat_id, `✅ **Đã đạt giới hạn mua hàng** (${currentBought}/${buyLimit}). Đã tự động tắt Auto-buy cho sản phẩm: ${currentItem.product_name}`);
+              const maxPrice = currentItem.max_price || 0;
+              if (buyRules.length > 0 && maxPrice > 0 && currentPrice > maxPrice) {
+                // Only report once per stock/price change, the scan runs every 2s
+                if (stockChanged) {
+                  log(`Bỏ qua Auto-buy ${currentItem.product_name}: giá ${currentPrice.toLocaleString('vi-VN')}đ vượt giá tối đa ${maxPrice.toLocaleString('vi-VN')}đ`, userId, currentItem.workspace_id, { category: "buy", productId: currentItem.product_id });
+                  await bot.telegram.sendMessage(currentItem.chat_id,
+                    `⏸ Bỏ qua Auto-buy vì giá cao hơn giá tối đa\n` +
+                    `📦 Sản phẩm: ${currentItem.product_name}\n` +
+                    `💰 Giá hiện tại: ${product.price} (Tối đa: ${maxPrice.toLocaleString('vi-VN')}đ)`
+                  );
+                  db.prepare("UPDATE monitors SET status = 'available', last_amount = ? WHERE id = ?").run(currentAmount, currentItem.id);
+                } else {
+                  db.prepare("UPDATE monitors SET last_checked = CURRENT_TIMESTAMP WHERE id = ?").run(currentItem.id);
+                }
+              } else if (buyRules.length > 0) {
+                let rule: any = null;
+                for (const candidate of buyRules) {
+                  if (candidate.buy_limit > 0 && candidate.bought_count >= candidate.buy_limit) {
+                    log(`Giới hạn mua đã đạt (${candidate.bought_count}/${candidate.buy_limit}). Tắt quy tắc #${candidate.id} cho ${currentItem.product_name}`, userId, currentItem.workspace_id, { category: "buy", productId: currentItem.product_id });
+                    db.prepare("UPDATE rules SET enabled = 0 WHERE id = ?").run(candidate.id);
+                    await bot.telegram.sendMessage(currentItem.chat_id, `✅ **Đã đạt giới hạn mua hàng** (${candidate.bought_count}/${candidate.buy_limit}). Đã tự động tắt quy tắc #${candidate.id} cho sản phẩm: ${currentItem.product_name}`);
                     continue;
                   }
-                  
-                  const remaining = buyLimit - currentBought;
+                  if (await ruleMatches(candidate, ruleContext)) {
+                    rule = candidate;
+                    break;
+                  }
+                }
+
+                if (!rule) {
+                  if (stockChanged) {
+                    log(`Phát hiện có hàng nhưng chưa có quy tắc Auto-buy nào khớp: ${currentItem.product_name}`, userId, currentItem.workspace_id, { category: "scan", productId: currentItem.product_id });
+                    db.prepare("UPDATE monitors SET status = 'available', last_amount = ? WHERE id = ?").run(currentAmount, currentItem.id);
+                  } else {
+                    db.prepare("UPDATE monitors SET last_checked = CURRENT_TIMESTAMP WHERE id = ?").run(currentItem.id);
+                  }
+                  continue;
+                }
+
+                const buyLimit = rule.buy_limit || 0;
+                const currentBought = rule.bought_count || 0;
+                let buyAmount = rule.action === 'buy_all' ? currentAmount : (rule.quantity || 1);
+
+                if (buyLimit > 0) {
                   // Mua tối đa số lượng cần thiết để đạt giới hạn nhanh nhất
-                  buyAmount = remaining;
+                  const remaining = buyLimit - currentBought;
+                  buyAmount = rule.action === 'buy_all' ? remaining : Math.min(buyAmount, remaining);
                 }
 
                 if (buyAmount > currentAmount) {
@@ -1112,132 +4622,162 @@ async function processMonitors(monitors: any[]) {
                 }
 
                 if (buyAmount > 0) {
-                  log(`Phát hiện có hàng, đang Auto-buy: ${currentItem.product_name} (SL: ${buyAmount})`, userId);
-                  
-                  try {
-                    const buyResponse = await axiosInstance.get(`https://shop.saidiait.top/api/BResource.php?username=${user.username}&password=${user.password}&id=${currentItem.product_id}&amount=${buyAmount}`);
-                    
-                    if (buyResponse.data.status === "success") {
-                      const newBoughtCount = currentBought + buyAmount;
-                      log(`Auto-buy THÀNH CÔNG: ${currentItem.product_name} (Tổng đã mua: ${newBoughtCount})`, userId);
-                      
-                      const jsonStr = JSON.stringify(buyResponse.data, null, 2);
-                      let limitMsg = buyLimit > 0 ? `\n📊 Tiến độ: ${newBoughtCount}/${buyLimit}` : "";
-                      
-                      await bot.telegram.sendMessage(currentItem.chat_id, 
-                        `✅ **Đặt hàng tự động thành công!**${limitMsg}\n\n` +
-                        `📦 Sản phẩm: ${currentItem.product_name}`, 
-                        { parse_mode: 'HTML' }
+                  const { allowed, blockedBy, unknownPrice } = getBudgetAllowance(userId, buyAmount, currentPrice);
+                  // Taken before any await so a concurrent group of the same user sees it
+                  releaseBudget = reserveBudget(userId, allowed * currentPrice);
+                  if (blockedBy && allowed < buyAmount) {
+                    const notifyKey = `${blockedBy.period}:${blockedBy.since}:${unknownPrice ? "price" : allowed === 0 ? "full" : "partial"}`;
+                    if (budgetNotified.get(userId) !== notifyKey) {
+                      budgetNotified.set(userId, notifyKey);
+                      log(`Ngân sách ${BUDGET_LABELS[blockedBy.period].toLowerCase()} giới hạn Auto-buy ${currentItem.product_name}: ${buyAmount} → ${allowed}${unknownPrice ? " (không rõ giá)" : ""}`, userId, currentItem.workspace_id, { level: "warn", category: "buy", productId: currentItem.product_id });
+                      await bot.telegram.sendMessage(currentItem.chat_id,
+                        `💸 **Ngân sách đã chặn Auto-buy**\n` +
+                        `📦 Sản phẩm: ${currentItem.product_name}\n` +
+                        `📅 ${BUDGET_LABELS[blockedBy.period]}: đã chi ${blockedBy.spent.toLocaleString('vi-VN')}đ / ${blockedBy.limit.toLocaleString('vi-VN')}đ\n` +
+                        `🛒 Số lượng: ${buyAmount} → ${allowed}\n` +
+                        (unknownPrice ? `⚠️ Không xác định được giá sản phẩm nên không thể kiểm tra hạn mức.\n` : "") +
+                        `\nDùng /budget để xem hoặc thay đổi hạn mức.`
                       );
+                    }
+                    buyAmount = allowed;
+                    if (allowed === 0) {
+                      db.prepare("UPDATE monitors SET status = 'available', last_amount = ? WHERE id = ?").run(currentAmount, currentItem.id);
+                    }
+                  }
+                }
 
-                      // Send as .txt file
-                      try {
-                        let fileContent = "";
-                        const processAccount = (acc: string) => {
-                          const parts = acc.split('|');
-                          if (parts.length >= 2) {
-                            return `${parts[0].trim()}|${parts[1].trim()}`;
-                          }
-                          return acc.trim();
-                        };
-
-                        if (buyResponse.data.data && Array.isArray(buyResponse.data.data.lists)) {
-                          fileContent = buyResponse.data.data.lists.map((a: any) => {
-                            if (a && typeof a === 'object' && a.account) return processAccount(String(a.account));
-                            return JSON.stringify(a);
-                          }).join("\n");
-                        } else if (Array.isArray(buyResponse.data.data)) {
-                          fileContent = buyResponse.data.data.map((a: any) => {
-                            if (typeof a === 'string') return processAccount(a);
-                            if (a && typeof a === 'object' && a.account) return processAccount(String(a.account));
-                            return JSON.stringify(a);
-                          }).join("\n");
-                        } else if (typeof buyResponse.data.data === "string") {
-                          fileContent = buyResponse.data.data.split('\n').filter((line: string) => line.trim() !== '').map(processAccount).join("\n");
-                        } else {
-                          fileContent = jsonStr;
-                        }
-                        
-                        const fileBuffer = Buffer.from(fileContent, 'utf-8');
-                        
-                        let fileName = `accounts_${currentItem.product_id}_${Date.now()}.txt`;
-                        if (buyResponse.data.data && buyResponse.data.data.name && buyResponse.data.data.amount && buyResponse.data.data.trans_id) {
-                          const safeName = String(buyResponse.data.data.name).replace(/[^a-zA-Z0-9]/g, '');
-                          fileName = `${safeName}_${buyResponse.data.data.amount}_${buyResponse.data.data.trans_id}.txt`;
-                        }
+                if (buyAmount > 0) {
+                  log(`Phát hiện có hàng, đang Auto-buy theo quy tắc #${rule.id}: ${currentItem.product_name} (SL: ${buyAmount})`, userId, currentItem.workspace_id, { category: "buy", productId: currentItem.product_id });
+                  const outcome = await executePurchase(user, {
+                    userId,
+                    workspaceId: currentItem.workspace_id,
+                    chatId: currentItem.chat_id,
+                    provider: currentItem.provider,
+                    productId: currentItem.product_id,
+                    productName: currentItem.product_name,
+                    quantity: buyAmount,
+                    unitPrice: currentPrice,
+                    source: "auto"
+                  });
+                  const failure = outcome.failure;
+
+                  if (outcome.bought > 0) {
+                    const newBoughtCount = currentBought + outcome.bought;
+                    log(`Auto-buy THÀNH CÔNG: ${currentItem.product_name} (SL: ${outcome.bought}/${buyAmount}, Tổng đã mua: ${newBoughtCount})`, userId, currentItem.workspace_id, { category: "buy", productId: currentItem.product_id, context: { orderIds: outcome.orderIds, attempts: outcome.attempts } });
+                    publishEvent({
+                      type: "autobuy_success", userId, monitorId: currentItem.id, productId: currentItem.product_id, productName: currentItem.product_name,
+                      amount: outcome.bought, message: outcome.bought < buyAmount ? `${outcome.bought}/${buyAmount}` : undefined
+                    });
+
+                    // Record the purchase before notifying, so a failed send can't make the next scan buy it again
+                    db.prepare("UPDATE monitors SET status = 'purchased', last_amount = ? WHERE id = ?").run(currentAmount, currentItem.id);
+                    db.prepare("UPDATE rules SET bought_count = ? WHERE id = ?").run(newBoughtCount, rule.id);
+                    const limitReached = buyLimit > 0 && newBoughtCount >= buyLimit;
+                    if (limitReached) {
+                      db.prepare("UPDATE rules SET enabled = 0 WHERE id = ?").run(rule.id);
+                    }
+
+                    let limitMsg = buyLimit > 0 ? `\n📊 Tiến độ: ${newBoughtCount}/${buyLimit}` : "";
+                    const partialMsg = outcome.bought < buyAmount
+                      ? `\n⚠️ Chỉ mua được ${outcome.bought}/${buyAmount} sau ${outcome.attempts} lần thử${failure ? ` (${escapeHtml(failure.message)})` : ""}`
+                      : "";
+                    const orderMsg = outcome.orderIds.length > 0 ? `\n🧾 Đơn: ${outcome.orderIds.map(id => `#${id}`).join(", ")}` : "";
+
+                    try {
+                      await bot.telegram.sendMessage(currentItem.chat_id,
+                        `✅ <b>Đặt hàng tự động thành công!</b>${limitMsg}\n\n` +
+                        `📦 Sản phẩm: ${escapeHtml(currentItem.product_name)}\n` +
+                        `🔢 Số lượng: ${outcome.bought}${partialMsg}\n` +
+                        `⚙️ Quy tắc: #${rule.id}${orderMsg}`,
+                        { parse_mode: 'HTML' }
+                      );
+                    } catch (sendErr) {
+                      logError("Failed to send auto-buy success message", sendErr, "telegram", userId, { productId: currentItem.product_id });
+                    }
 
+                    // One .txt file for the whole request, even when it took several orders
+                    try {
+                      if (outcome.orderIds.length === 1 && outcome.accounts.length === 1) {
+                        await sendOrderFile(currentItem.chat_id, outcome.orderIds[0]);
+                      } else {
                         await bot.telegram.sendDocument(currentItem.chat_id, {
-                          source: fileBuffer,
-                          filename: fileName
+                          source: Buffer.from(outcome.accounts.join("\n"), 'utf-8'),
+                          filename: `accounts_${currentItem.product_id}_${outcome.bought}_${Date.now()}.txt`
                         });
-                      } catch (fileErr) {
-                        console.error("Failed to send document:", fileErr);
                       }
+                    } catch (fileErr) {
+                      logError("Failed to send document", fileErr, "telegram", userId, { productId: currentItem.product_id });
+                    }
 
-                      db.prepare("UPDATE monitors SET status = 'purchased', last_amount = ?, bought_count = ? WHERE id = ?").run(currentAmount, newBoughtCount, currentItem.id);
-
-                      if (buyLimit > 0 && newBoughtCount >= buyLimit) {
-                        db.prepare("UPDATE monitors SET auto_buy = 0, auto_buy_amount = 0, buy_limit = 0, bought_count = 0 WHERE id = ?").run(currentItem.id);
-                        await bot.telegram.sendMessage(currentItem.chat_id, `🏁 **Đã đạt giới hạn mua hàng** (${newBoughtCount}/${buyLimit}). Đã tắt Auto-buy cho sản phẩm này.`);
+                    if (limitReached) {
+                      try {
+                        await bot.telegram.sendMessage(currentItem.chat_id, `🏁 <b>Đã đạt giới hạn mua hàng</b> (${newBoughtCount}/${buyLimit}). Đã tắt quy tắc #${rule.id} cho sản phẩm này.`, { parse_mode: 'HTML' });
+                      } catch (sendErr) {
+                        logError("Failed to send buy limit message", sendErr, "telegram", userId, { productId: currentItem.product_id });
                       }
+                    }
+                  }
+
+                  if (failure?.reason === "balance") {
+                    disableBuyRules(currentItem.id);
+                    log(`Tự động TẮT Auto-buy cho ${currentItem.product_name} do hết số dư.`, userId, currentItem.workspace_id, { level: "warn", category: "buy", productId: currentItem.product_id });
+                    await bot.telegram.sendMessage(currentItem.chat_id, `⚠️ **Đã tự động TẮT Auto-buy** cho sản phẩm này vì số dư tài khoản không đủ.`);
+                  }
+
+                  if (outcome.bought === 0 && failure) {
+                    publishEvent({ type: "autobuy_failed", userId, monitorId: currentItem.id, productId: currentItem.product_id, productName: currentItem.product_name, amount: 0, message: failure.message });
+                    if (failure.reason !== "balance") {
+                      db.prepare("UPDATE monitors SET last_amount = ? WHERE id = ?").run(currentAmount, currentItem.id);
+                    }
+                    if (failure.reason === "error") {
+                      log(`Auto-buy LỖI KẾT NỐI: ${currentItem.product_name} - ${failure.message}`, userId, currentItem.workspace_id, { level: "error", category: "buy", productId: currentItem.product_id, context: { attempts: outcome.attempts } });
                     } else {
-                      let errorMsg = buyResponse.data.message || "Lỗi không xác định";
-                      const isLowBalance = errorMsg.toLowerCase().includes("số dư") || errorMsg.toLowerCase().includes("không đủ tiền") || errorMsg.toLowerCase().includes("balance");
-                      
-                      if (isLowBalance) {
-                        errorMsg = "Số dư không đủ";
-                        db.prepare("UPDATE monitors SET auto_buy = 0, auto_buy_amount = 0, buy_limit = 0, bought_count = 0 WHERE id = ?").run(currentItem.id);
-                        log(`Tự động TẮT Auto-buy cho ${currentItem.product_name} do hết số dư.`, userId);
-                        await bot.telegram.sendMessage(currentItem.chat_id, `⚠️ **Đã tự động TẮT Auto-buy** cho sản phẩm này vì số dư tài khoản không đủ.`);
-                      } else {
-                        db.prepare("UPDATE monitors SET last_amount = ? WHERE id = ?").run(currentAmount, currentItem.id);
-                      }
-                      
-                      log(`Auto-buy THẤT BẠI: ${currentItem.product_name} - ${errorMsg}`, userId);
-                      const rawDetail = JSON.stringify(buyResponse.data, null, 2);
-                      await bot.telegram.sendMessage(currentItem.chat_id, 
-                        `❌ **Đặt hàng tự động thất bại**\n` +
-                        `📦 Sản phẩm: ${currentItem.product_name}\n` +
-                        `⚠️ Lỗi: ${errorMsg}\n\n` +
-                        `📄 **Chi tiết lỗi từ shop:**\n<pre>${rawDetail}</pre>`, 
+                      log(`Auto-buy THẤT BẠI: ${currentItem.product_name} - ${failure.message}`, userId, currentItem.workspace_id, { level: "warn", category: "buy", productId: currentItem.product_id, context: { reason: failure.reason, attempts: outcome.attempts, response: failure.response } });
+                      const rawDetail = escapeHtml(JSON.stringify(failure.response, null, 2));
+                      await bot.telegram.sendMessage(currentItem.chat_id,
+                        `❌ <b>Đặt hàng tự động thất bại</b>\n` +
+                        `📦 Sản phẩm: ${escapeHtml(currentItem.product_name)}\n` +
+                        `⚠️ Lỗi: ${escapeHtml(failure.message)}${outcome.attempts > 1 ? ` (đã thử ${outcome.attempts} lần)` : ""}\n\n` +
+                        `📄 <b>Chi tiết lỗi từ shop:</b>\n<pre>${rawDetail}</pre>`,
                         { parse_mode: 'HTML' }
                       );
                     }
-                  } catch (buyError: any) {
-                    const errorDetail = buyError.response?.data ? JSON.stringify(buyError.response.data) : buyError.message;
-                    log(`Auto-buy LỖI KẾT NỐI: ${currentItem.product_name} - ${errorDetail}`, userId);
-                    db.prepare("UPDATE monitors SET last_amount = ? WHERE id = ?").run(currentAmount, currentItem.id);
                   }
                 }
               } else {
                 if (currentAmount !== lastAmount || currentItem.status === 'monitoring') {
-                  log(`Phát hiện có hàng nhưng Auto-buy đang TẮT: ${currentItem.product_name}`, userId);
+                  log(`Phát hiện có hàng nhưng Auto-buy đang TẮT: ${currentItem.product_name}`, userId, currentItem.workspace_id, { category: "scan", productId: currentItem.product_id });
                   db.prepare("UPDATE monitors SET status = 'available', last_amount = ? WHERE id = ?").run(currentAmount, currentItem.id);
                 } else {
                   db.prepare("UPDATE monitors SET last_checked = CURRENT_TIMESTAMP WHERE id = ?").run(currentItem.id);
                 }
               }
             } catch (error) {
-              console.error(`Error checking product ${item.product_id}:`, error);
+              logError(`Error checking product ${item.product_id}`, error, "scan", userId, { productId: item.product_id });
+            } finally {
+              releaseBudget?.();
             }
           }
         } catch (userApiError) {
-          console.error(`API Error for user ${userId}:`, userApiError);
+          logError(`API Error for user ${userId}`, userApiError, "scan", userId);
         }
       } finally {
-        userProcessLocks.delete(userId);
+        accountProcessLocks.delete(key);
       }
     });
     
     await Promise.all(promises);
   } catch (apiError) {
-    console.error("Background Scan API Error:", apiError);
+    logError("Background Scan API Error", apiError, "scan");
   }
 }
 
 const userScanLocks = new Set<string>();
 
-bot.command("scan", async (ctx) => {
+defineCommand({
+  name: "scan", role: "buyer", section: "products", description: "Chạy kiểm tra toàn bộ danh sách (và tự động mua nếu bật)",
+  menu: { text: "🔍 Quét ngay (Scan)", order: 10 }
+}, async (ctx, _text, scope) => {
   const userId = ctx.from.id.toString();
   
   if (userScanLocks.has(userId)) {
@@ -1247,7 +4787,7 @@ bot.command("scan", async (ctx) => {
   const user = getUser(userId);
   if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi scan: /login <user> <pass>");
 
-  const monitors = db.prepare("SELECT * FROM monitors WHERE user_id = ?").all(userId);
+  const monitors = db.prepare(`SELECT * FROM monitors WHERE ${scope.where}`).all(scope.param);
   if (monitors.length === 0) return ctx.reply("Bạn chưa theo dõi sản phẩm nào để scan.");
 
   userScanLocks.add(userId);
@@ -1260,354 +4800,624 @@ bot.command("scan", async (ctx) => {
   }
 });
 
-bot.command("stop", (ctx) => {
-  const parts = ctx.message.text.split(/\s+/);
+defineCommand({
+  name: "stop", role: "buyer", args: "<id>", section: "products", description: "Dừng theo dõi sản phẩm"
+}, (ctx, text, scope) => {
+  const parts = text.split(/\s+/);
   const id = parts[1];
   const userId = ctx.from.id.toString();
-  if (!id) return ctx.reply("Vui lòng nhập ID: /stop <id>");
+  const monitors = db.prepare(`SELECT id FROM monitors WHERE (id = ? OR product_id = ?) AND ${scope.where}`).all(id, id, scope.param) as any[];
+  monitors.forEach(monitor => removeMonitor(monitor.id));
 
-  const stmt = db.prepare("DELETE FROM monitors WHERE (id = ? OR product_id = ?) AND user_id = ?");
-  const result = stmt.run(id, id, userId);
-
-  if (result.changes > 0) {
+  if (monitors.length > 0) {
+    log(`Dừng theo dõi ID ${id}`, userId, scope.workspaceId, { category: "monitor" });
     ctx.reply(`✅ Đã dừng theo dõi sản phẩm ID: ${id}`);
   } else {
     ctx.reply("❌ Không tìm thấy sản phẩm với ID này trong danh sách theo dõi của bạn. Hãy dùng /list để xem đúng ID.");
   }
 });
 
-bot.command("autobuy", async (ctx) => {
+interface FundsShortfall {
+  productName: string;
+  price: string;
+  quantity: number;
+  totalCost: number;
+  balance: string;
+}
+
+// Balance pre-check shared by /autobuy, /schedule and the dashboard API: the account must afford the limit (or one batch)
+async function checkAutoBuyFunds(account: any, monitor: any, amount: number, limit: number): Promise<{ error?: string; shortfall?: FundsShortfall }> {
+  const data = await getCachedAPI(account.username, account.password, account.provider);
+  const product = findProductInCategories(data.categories || [], monitor.product_id, monitor.provider);
+  if (!product) return { error: `Không tìm thấy thông tin sản phẩm ID ${monitor.product_id} trên shop để kiểm tra giá.` };
+
+  const balanceStr = await getBalance(account.username, account.password, account.provider);
+  if (!balanceStr) return { error: "Không thể lấy số dư tài khoản của bạn. Vui lòng thử lại sau." };
+
+  const quantity = limit > 0 ? limit : amount;
+  const totalCost = parseCurrency(product.price) * quantity;
+  if (parseCurrency(balanceStr) < totalCost) {
+    return { shortfall: { productName: product.name, price: product.price, quantity, totalCost, balance: balanceStr } };
+  }
+  return {};
+}
+
+function insufficientFundsMessage(shortfall: FundsShortfall, action: string, advice: string) {
+  return `❌ **Không đủ số dư để ${action}!**\n\n` +
+    `🔹 Sản phẩm: ${shortfall.productName}\n` +
+    `🔹 Giá mỗi sản phẩm: ${shortfall.price}\n` +
+    `🔹 Số lượng mua dự kiến: ${shortfall.quantity}\n` +
+    `🔹 Tổng tiền cần: ${shortfall.totalCost.toLocaleString('vi-VN')}đ\n` +
+    `💰 Số dư hiện tại: ${shortfall.balance}\n\n` +
+    `⚠️ Vui lòng nạp thêm tiền trước khi ${advice}.`;
+}
+
+function setMonitorAutoBuy(monitorId: number, userId: string, enabled: boolean, amount: number, limit: number, maxPrice?: number) {
+  if (!enabled) {
+    disableBuyRules(monitorId);
+    return;
+  }
+  setAutoBuyRule(monitorId, userId, amount, limit);
+  db.prepare("UPDATE monitors SET status = 'monitoring' WHERE id = ?").run(monitorId);
+  if (maxPrice !== undefined) db.prepare("UPDATE monitors SET max_price = ? WHERE id = ?").run(maxPrice, monitorId);
+}
+
+defineCommand({
+  name: "autobuy", role: "buyer", args: "<id> <1|0> [số lượng] [giới hạn] [giá tối đa]", section: "buying",
+  description: "Bật/Tắt tự động mua hàng với số lượng", example: "/autobuy 21 1 5 30 12000"
+}, async (ctx, text, scope) => {
   const userId = ctx.from.id.toString();
   const user = getUser(userId);
   if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi bật Auto-buy: /login <user> <pass>");
 
-  const parts = ctx.message.text.split(/\s+/);
+  const parts = text.split(/\s+/);
   const id = parts[1];
   const val = parts[2];
   const amount = parts[3] || "1";
   const limit = parts[4] || "0";
-
-  if (!id || !val) return ctx.reply("Sử dụng: /autobuy <id> <1|0> <số lượng mỗi lần> <tổng giới hạn mua>\nVí dụ: /autobuy 1 1 5 30 (Bật auto buy cho ID 1, mỗi lần mua 5 con, dừng khi mua đủ 30 con)");
+  const maxPriceArg = parts[5];
 
   if (val === "1") {
     try {
       ctx.reply("🔍 Đang kiểm tra số dư và thông tin sản phẩm...");
-      const monitor = db.prepare("SELECT * FROM monitors WHERE (id = ? OR product_id = ?) AND user_id = ?").get(id, id, userId) as any;
+      const monitor = db.prepare(`SELECT * FROM monitors WHERE (id = ? OR product_id = ?) AND ${scope.where}`).get(id, id, scope.param) as any;
       if (!monitor) {
         return ctx.reply("❌ Không tìm thấy sản phẩm trong danh sách theo dõi của bạn. Vui lòng dùng /list để kiểm tra lại ID (Monitor ID hoặc Product ID).");
       }
 
-      const data = await getCachedAPI(user.username, user.password);
-      const categories = data.categories || [];
-      const product = findProductInCategories(categories, monitor.product_id);
-
-      if (!product) {
-        return ctx.reply(`❌ Không tìm thấy thông tin sản phẩm ID ${monitor.product_id} trên shop để kiểm tra giá.`);
-      }
-
-      const balanceStr = await getBalance(user.username, user.password);
-      if (!balanceStr) {
-        return ctx.reply("❌ Không thể lấy số dư tài khoản của bạn. Vui lòng thử lại sau.");
-      }
-
-      const parseCurrency = (str: string) => {
-        if (!str) return 0;
-        return parseFloat(str.replace(/[^\d]/g, '')) || 0;
-      };
-
-      const price = parseCurrency(product.price);
-      const balance = parseCurrency(balanceStr);
-      const checkAmount = parseInt(limit) > 0 ? parseInt(limit) : parseInt(amount);
-      const totalCost = price * checkAmount;
-
-      if (balance < totalCost) {
-        return ctx.reply(
-          `❌ **Không đủ số dư để bật Auto-buy!**\n\n` +
-          `🔹 Sản phẩm: ${product.name}\n` +
-          `🔹 Giá mỗi sản phẩm: ${product.price}\n` +
-          `🔹 Số lượng mua dự kiến: ${checkAmount}\n` +
-          `🔹 Tổng tiền cần: ${totalCost.toLocaleString('vi-VN')}đ\n` +
-          `💰 Số dư hiện tại: ${balanceStr}\n\n` +
-          `⚠️ Vui lòng nạp thêm tiền trước khi bật Auto-buy.`
-        );
-      }
+      const check = await checkAutoBuyFunds(getMonitorAccount(monitor) || user, monitor, parseInt(amount), parseInt(limit));
+      if (check.error) return ctx.reply(`❌ ${check.error}`);
+      if (check.shortfall) return ctx.reply(insufficientFundsMessage(check.shortfall, "bật Auto-buy", "bật Auto-buy"));
     } catch (error) {
-      console.error("Autobuy Balance Check Error:", error);
+      logError("Autobuy Balance Check Error", error, "buy", userId);
       return ctx.reply("❌ Đã xảy ra lỗi khi kiểm tra số dư. Vui lòng thử lại sau.");
     }
   }
 
-  let stmt;
-  let result;
-  if (val === "1") {
-    stmt = db.prepare("UPDATE monitors SET auto_buy = 1, auto_buy_amount = ?, buy_limit = ?, bought_count = 0, status = 'monitoring' WHERE (id = ? OR product_id = ?) AND user_id = ?");
-    result = stmt.run(parseInt(amount), parseInt(limit), id, id, userId);
-  } else {
-    stmt = db.prepare("UPDATE monitors SET auto_buy = 0, auto_buy_amount = 0, buy_limit = 0, bought_count = 0 WHERE (id = ? OR product_id = ?) AND user_id = ?");
-    result = stmt.run(id, id, userId);
+  const monitors = db.prepare(`SELECT * FROM monitors WHERE (id = ? OR product_id = ?) AND ${scope.where}`).all(id, id, scope.param) as any[];
+  for (const monitor of monitors) {
+    setMonitorAutoBuy(monitor.id, userId, val === "1", parseInt(amount), parseInt(limit), maxPriceArg !== undefined ? parseCurrency(maxPriceArg) : undefined);
   }
 
-  if (result.changes > 0) {
-    log(`Cập nhật Auto-buy cho ID ${id}: ${val === "1" ? "Bật" : "Tắt"} (SL: ${amount}, Giới hạn: ${limit === "0" ? "Không" : limit})`, userId);
+  if (monitors.length > 0) {
+    log(`Cập nhật Auto-buy cho ID ${id}: ${val === "1" ? "Bật" : "Tắt"} (SL: ${amount}, Giới hạn: ${limit === "0" ? "Không" : limit})`, userId, scope.workspaceId, { category: "buy" });
     if (val === "1") {
       ctx.reply(
         `✅ **Đã cập nhật chế độ tự động mua cho ID: ${id}**\n` +
         `- Trạng thái: Bật\n` +
         `- Số lượng mỗi lần: ${amount}\n` +
-        `- Tổng giới hạn mua: ${limit === "0" ? "Không giới hạn" : limit + " con"}`
+        `- Tổng giới hạn mua: ${limit === "0" ? "Không giới hạn" : limit + " con"}` +
+        (maxPriceArg !== undefined ? `\n- Giá tối đa: ${parseCurrency(maxPriceArg) > 0 ? parseCurrency(maxPriceArg).toLocaleString('vi-VN') + "đ" : "Không giới hạn"}` : "")
       );
     } else {
-      ctx.reply(`✅ **Đã tắt chế độ tự động mua và xoá các thông số Auto-buy cho ID: ${id}**`);
+      ctx.reply(`✅ **Đã tắt chế độ tự động mua (tạm dừng mọi quy tắc mua) cho ID: ${id}**`);
     }
   } else {
     ctx.reply("❌ Không tìm thấy sản phẩm trong danh sách theo dõi của bạn. Vui lòng dùng /list để kiểm tra lại ID (Monitor ID hoặc Product ID).");
   }
 });
 
-bot.command("schedule", async (ctx) => {
+defineCommand({
+  name: "active_autobuy", role: "viewer", section: "buying", description: "Danh sách lệnh Auto-buy đang bật",
+  menu: { text: "🛒 Lệnh Auto-buy đang bật", order: 5 }
+}, (ctx, _text, scope) => {
+  const rows = db.prepare(`SELECT DISTINCT m.* FROM monitors m JOIN rules r ON r.monitor_id = m.id WHERE m.id IN (SELECT id FROM monitors WHERE ${scope.where}) AND r.enabled = 1 AND r.action != 'notify'`).all(scope.param);
+  if (rows.length === 0) return ctx.reply("Hiện tại KHÔNG CÓ lệnh Auto-buy nào đang bật.");
+
+  let message = "🛒 **Danh sách lệnh Auto-buy ĐANG BẬT:**\n\n";
+  rows.forEach((row: any) => {
+    message += `🔹 Monitor ID: ${row.id} | Product ID: ${row.product_id}\n`;
+    message += `📦 Sản phẩm: ${row.product_name}\n`;
+    getMonitorRules(row.id, true).filter(r => r.action !== 'notify').forEach(rule => {
+      message += `⚡ ${describeRule(rule)}\n`;
+    });
+    message += `\n`;
+  });
+  ctx.reply(message);
+});
+
+defineCommand({
+  name: "stop_autobuy", role: "buyer", section: "buying", description: "Tắt tất cả lệnh Auto-buy",
+  menu: { text: "🛑 Tắt tất cả Auto-buy", order: 6 }
+}, (ctx, _text, scope) => {
   const userId = ctx.from.id.toString();
-  const user = getUser(userId);
-  if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi hẹn giờ: /login <user> <pass>");
+  const result = db.prepare(`UPDATE rules SET enabled = 0 WHERE monitor_id IN (SELECT id FROM monitors WHERE ${scope.where}) AND enabled = 1 AND action != 'notify'`).run(scope.param);
+  if (result.changes > 0) {
+    ctx.reply(`🛑 Đã tắt thành công ${result.changes} lệnh Auto-buy đang chạy.`);
+    log(`Tắt tất cả lệnh Auto-buy`, userId, scope.workspaceId, { category: "buy" });
+  } else {
+    ctx.reply("ℹ️ Hiện tại không có lệnh Auto-buy nào đang bật.");
+  }
+});
+
+const BUDGET_ARGS: { [key: string]: BudgetPeriod } = {
+  day: "daily",
+  week: "weekly",
+  month: "monthly"
+};
+
+defineCommand({
+  name: "budget", args: "[day|week|month] [số tiền|0]", section: "buying", description: "Hạn mức chi tiêu cho Auto-buy",
+  example: "/budget day 500.000"
+}, (ctx, text) => {
+  const parts = text.split(/\s+/);
+  const periodArg = (parts[1] || "").toLowerCase();
+  const amountArg = parts[2];
+  const userId = ctx.from.id.toString();
+
+  if (periodArg) {
+    const period = BUDGET_ARGS[periodArg];
+    if (!period || amountArg === undefined) {
+      return ctx.reply("Sử dụng: /budget [day|week|month] [số tiền | 0]\nVí dụ: /budget day 500.000 (Auto-buy chi tối đa 500.000đ mỗi ngày, 0 để bỏ giới hạn)");
+    }
+    const amount = parseCurrency(amountArg);
+    db.prepare(`
+      INSERT INTO budgets (user_id, ${period}) VALUES (?, ?)
+      ON CONFLICT(user_id) DO UPDATE SET ${period} = excluded.${period}, updated_at = CURRENT_TIMESTAMP
+    `).run(userId, amount);
+    budgetNotified.delete(userId);
+    log(`Đặt ngân sách ${BUDGET_LABELS[period].toLowerCase()}: ${amount > 0 ? amount.toLocaleString('vi-VN') + "đ" : "Không giới hạn"}`, userId, null, { category: "buy" });
+  }
 
-  const parts = ctx.message.text.split(/\s+/);
+  let message = "💸 **Ngân sách Auto-buy:**\n\n";
+  getBudgetStatus(userId).forEach(status => {
+    message += `📅 ${BUDGET_LABELS[status.period]}: đã chi ${status.spent.toLocaleString('vi-VN')}đ`;
+    message += status.limit > 0
+      ? ` / ${status.limit.toLocaleString('vi-VN')}đ (còn ${status.remaining.toLocaleString('vi-VN')}đ)\n`
+      : ` (không giới hạn)\n`;
+  });
+  message += "\nĐặt hạn mức: /budget <day|week|month> <số tiền | 0>";
+  ctx.reply(message);
+});
+
+defineCommand({
+  name: "maxprice", role: "buyer", args: "<id> <giá|0>", section: "buying", description: "Giá tối đa cho Auto-buy",
+  example: "/maxprice 21 12.000"
+}, (ctx, text, scope) => {
+  const parts = text.split(/\s+/);
   const id = parts[1];
-  const time = parts[2];
-  const amount = parts[3] || "1";
-  const limit = parts[4] || "0";
+  const priceArg = parts[2];
+  const userId = ctx.from.id.toString();
+  const maxPrice = parseCurrency(priceArg);
+  const result = db.prepare(`UPDATE monitors SET max_price = ? WHERE (id = ? OR product_id = ?) AND ${scope.where}`).run(maxPrice, id, id, scope.param);
+  if (result.changes > 0) {
+    log(`Đặt giá tối đa cho ID ${id}: ${maxPrice > 0 ? maxPrice.toLocaleString('vi-VN') + "đ" : "Không giới hạn"}`, userId, scope.workspaceId, { category: "buy" });
+    ctx.reply(maxPrice > 0
+      ? `✅ Auto-buy cho ID ${id} sẽ chỉ mua khi giá ≤ ${maxPrice.toLocaleString('vi-VN')}đ`
+      : `✅ Đã bỏ giới hạn giá Auto-buy cho ID ${id}`);
+  } else {
+    ctx.reply("❌ Không tìm thấy sản phẩm trong danh sách theo dõi của bạn. Vui lòng dùng /list để kiểm tra lại ID (Monitor ID hoặc Product ID).");
+  }
+});
+
+defineCommand({
+  name: "pricealert", role: "buyer", args: "<id> <1|0>", section: "buying", description: "Bật/Tắt thông báo giảm giá",
+  example: "/pricealert 21 1"
+}, (ctx, text, scope) => {
+  const parts = text.split(/\s+/);
+  const id = parts[1];
+  const val = parts[2];
+  const userId = ctx.from.id.toString();
+  if (!id || (val !== "1" && val !== "0")) {
+    return ctx.reply("Sử dụng: /pricealert <id> <1|0>\nVí dụ: /pricealert 21 1 (Báo khi giá sản phẩm ID 21 giảm)");
+  }
 
-  if (!id || !time) return ctx.reply("Sử dụng: /schedule <id> <HH:mm> <số lượng mỗi lần> [tổng giới hạn mua]\nVí dụ: /schedule 21 15:30 10 50 (Hẹn 15:30 bật auto buy cho ID 21, mỗi lần mua 10 con, dừng khi mua đủ 50 con)");
+  const result = db.prepare(`UPDATE monitors SET price_alert = ? WHERE (id = ? OR product_id = ?) AND ${scope.where}`).run(parseInt(val), id, id, scope.param);
+  if (result.changes > 0) {
+    log(`${val === "1" ? "Bật" : "Tắt"} báo giảm giá cho ID ${id}`, userId, scope.workspaceId, { category: "monitor" });
+    ctx.reply(`✅ Đã ${val === "1" ? "BẬT" : "TẮT"} thông báo giảm giá cho ID ${id}`);
+  } else {
+    ctx.reply("❌ Không tìm thấy sản phẩm trong danh sách theo dõi của bạn. Vui lòng dùng /list để kiểm tra lại ID (Monitor ID hoặc Product ID).");
+  }
+});
 
-  // Validate time format HH:mm
-  if (!/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/.test(time)) {
-    return ctx.reply("❌ Định dạng giờ không hợp lệ. Vui lòng nhập theo định dạng HH:mm (VD: 08:30, 15:45)");
+const RULES_USAGE =
+  "Sử dụng:\n" +
+  "/rules - Xem tất cả quy tắc\n" +
+  "/rules add <id> <buy|all|notify> [số lượng] [điều kiện...]\n" +
+  "/rules del <mã quy tắc>\n" +
+  "/rules on|off <mã quy tắc>\n\n" +
+  "Điều kiện: stock>=N, price<=X, balance>=Y, limit=N, time=HH:mm-HH:mm, days=1-5 (1=T2 ... 7=CN)\n" +
+  "Ví dụ: /rules add 21 buy 2 stock>=5 price<=12000 time=08:00-22:00 days=1-5";
+
+defineCommand({
+  name: "rules", role: "buyer", args: "[add|del|on|off]", section: "buying", description: "Quản lý quy tắc Auto-buy theo điều kiện",
+  example: "/rules add 21 buy 2 price<=12000 time=08:00-22:00"
+}, (ctx, text, scope) => {
+  const userId = ctx.from.id.toString();
+  const parts = text.split(/\s+/);
+  const sub = (parts[1] || "").toLowerCase();
+
+  if (!sub) {
+    const rows = db.prepare(`
+      SELECT r.*, m.product_id, m.product_name FROM rules r
+      JOIN monitors m ON m.id = r.monitor_id
+      WHERE m.id IN (SELECT id FROM monitors WHERE ${scope.where}) ORDER BY r.monitor_id, r.id
+    `).all(scope.param) as any[];
+    if (rows.length === 0) return ctx.reply("Bạn chưa có quy tắc nào.\n\n" + RULES_USAGE);
+
+    let message = "⚙️ **Danh sách quy tắc Auto-buy:**\n";
+    let lastMonitorId: number | null = null;
+    rows.forEach(row => {
+      if (row.monitor_id !== lastMonitorId) {
+        message += `\n📦 ${row.product_name} (Monitor ID: ${row.monitor_id} | Product ID: ${row.product_id})\n`;
+        lastMonitorId = row.monitor_id;
+      }
+      message += `   ${describeRule(row)}\n`;
+    });
+    return ctx.reply(message);
   }
 
-  const [h, m] = time.split(':');
-  const normalizedTime = `${h.padStart(2, '0')}:${m.padStart(2, '0')}`;
+  if (sub === "add") {
+    const id = parts[2];
+    if (!id || !parts[3]) return ctx.reply(RULES_USAGE);
 
-  try {
-    ctx.reply("🔍 Đang kiểm tra số dư và thông tin sản phẩm...");
-    const monitor = db.prepare("SELECT * FROM monitors WHERE (id = ? OR product_id = ?) AND user_id = ?").get(id, id, userId) as any;
-    if (!monitor) {
-      return ctx.reply("❌ Không tìm thấy sản phẩm trong danh sách theo dõi của bạn. Vui lòng dùng /list để kiểm tra lại ID (Monitor ID hoặc Product ID).");
-    }
+    const monitor = db.prepare(`SELECT * FROM monitors WHERE (id = ? OR product_id = ?) AND ${scope.where} ORDER BY id LIMIT 1`).get(id, id, scope.param) as any;
+    if (!monitor) return ctx.reply("❌ Không tìm thấy sản phẩm trong danh sách theo dõi của bạn. Hãy dùng /monitor <id> trước.");
 
-    const data = await getCachedAPI(user.username, user.password);
-    const categories = data.categories || [];
-    const product = findProductInCategories(categories, monitor.product_id);
+    const { rule, error } = parseRuleOptions(parts.slice(3));
+    if (!rule) return ctx.reply(`❌ ${error}\n\n${RULES_USAGE}`);
 
-    if (!product) {
-      return ctx.reply(`❌ Không tìm thấy thông tin sản phẩm ID ${monitor.product_id} trên shop để kiểm tra giá.`);
+    const ruleId = insertRule(monitor.id, userId, rule);
+    if (rule.action !== "notify") {
+      db.prepare("UPDATE monitors SET status = 'monitoring' WHERE id = ?").run(monitor.id);
     }
+    const saved = db.prepare("SELECT * FROM rules WHERE id = ?").get(ruleId);
+    log(`Thêm quy tắc #${ruleId} cho ${monitor.product_name}`, userId, scope.workspaceId, { category: "buy", productId: monitor.product_id });
+    return ctx.reply(`✅ Đã thêm quy tắc cho ${monitor.product_name}:\n${describeRule(saved)}`);
+  }
+
+  if (sub === "del" || sub === "on" || sub === "off") {
+    const ruleId = parseInt(parts[2]);
+    if (isNaN(ruleId)) return ctx.reply(RULES_USAGE);
 
-    const balanceStr = await getBalance(user.username, user.password);
-    if (!balanceStr) {
-      return ctx.reply("❌ Không thể lấy số dư tài khoản của bạn. Vui lòng thử lại sau.");
+    const owned = `id = ? AND monitor_id IN (SELECT id FROM monitors WHERE ${scope.where})`;
+    let result;
+    if (sub === "del") {
+      result = db.prepare(`DELETE FROM rules WHERE ${owned}`).run(ruleId, scope.param);
+    } else {
+      // Re-enabling starts the purchase limit over, like /autobuy did
+      result = sub === "on"
+        ? db.prepare(`UPDATE rules SET enabled = 1, bought_count = 0 WHERE ${owned}`).run(ruleId, scope.param)
+        : db.prepare(`UPDATE rules SET enabled = 0 WHERE ${owned}`).run(ruleId, scope.param);
+      if (sub === "on" && result.changes > 0) {
+        db.prepare("UPDATE monitors SET status = 'monitoring' WHERE id = (SELECT monitor_id FROM rules WHERE id = ?)").run(ruleId);
+      }
     }
 
-    const parseCurrency = (str: string) => {
-      if (!str) return 0;
-      return parseFloat(str.replace(/[^\d]/g, '')) || 0;
-    };
+    if (result.changes === 0) return ctx.reply(`❌ Không tìm thấy quy tắc #${ruleId}. Dùng /rules để xem danh sách.`);
+    const label = sub === "del" ? "Đã xoá" : sub === "on" ? "Đã BẬT" : "Đã TẮT";
+    log(`${label} quy tắc #${ruleId}`, userId, scope.workspaceId, { category: "buy" });
+    return ctx.reply(`✅ ${label} quy tắc #${ruleId}`);
+  }
 
-    const price = parseCurrency(product.price);
-    const balance = parseCurrency(balanceStr);
-    const checkAmount = parseInt(limit) > 0 ? parseInt(limit) : parseInt(amount);
-    const totalCost = price * checkAmount;
-
-    if (balance < totalCost) {
-      return ctx.reply(
-        `❌ **Không đủ số dư để hẹn giờ Auto-buy!**\n\n` +
-        `🔹 Sản phẩm: ${product.name}\n` +
-        `🔹 Giá mỗi sản phẩm: ${product.price}\n` +
-        `🔹 Số lượng mua dự kiến: ${checkAmount}\n` +
-        `🔹 Tổng tiền cần: ${totalCost.toLocaleString('vi-VN')}đ\n` +
-        `💰 Số dư hiện tại: ${balanceStr}\n\n` +
-        `⚠️ Vui lòng nạp thêm tiền trước khi đặt lịch hẹn giờ.`
-      );
-    }
+  ctx.reply(RULES_USAGE);
+});
+
+const SCHEDULE_USAGE =
+  "Sử dụng: /schedule <id> <HH:mm | \"cron\"> <số lượng mỗi lần> [tổng giới hạn mua] [daily | days=1-5] [until=HH:mm]\n" +
+  "Ví dụ:\n" +
+  "/schedule 21 15:30 10 50 (Hẹn 15:30 bật auto buy cho ID 21, mỗi lần mua 10 con, dừng khi mua đủ 50 con)\n" +
+  "/schedule 21 15:30 5 days=1-5 until=16:00 (Thứ 2 - Thứ 6 lúc 15:30 bật, 16:00 tắt)\n" +
+  "/schedule 21 \"0 8,20 * * *\" 2 (Mỗi ngày lúc 08:00 và 20:00)";
+
+defineCommand({
+  name: "schedule", role: "buyer", args: "<id> <HH:mm|\"cron\"> [số lượng] [giới hạn] [days=1-5] [until=HH:mm]", section: "buying",
+  description: "Hẹn giờ bật Auto-buy", example: "/schedule 21 15:30 10 50", usage: SCHEDULE_USAGE
+}, async (ctx, text, scope) => {
+  const userId = ctx.from.id.toString();
+  const user = getUser(userId);
+  if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước khi hẹn giờ: /login <user> <pass>");
+
+  // A quoted argument is kept whole so a cron expression can be passed: /schedule 21 "30 15 * * 1-5" 10
+  const parts = (text.match(/"[^"]*"|\S+/g) || []).map(part => part.replace(/^"|"$/g, ''));
+  const id = parts[1];
+  const { spec, error } = parseScheduleArgs(parts[2], parts.slice(3));
+  if (!spec) return ctx.reply(`❌ ${error}\n\n${SCHEDULE_USAGE}`);
+
+  const monitor = db.prepare(`SELECT * FROM monitors WHERE (id = ? OR product_id = ?) AND ${scope.where}`).get(id, id, scope.param) as any;
+  if (!monitor) {
+    return ctx.reply("❌ Không tìm thấy sản phẩm trong danh sách theo dõi của bạn. Vui lòng dùng /list để kiểm tra lại ID (Monitor ID hoặc Product ID).");
+  }
+
+  try {
+    ctx.reply("🔍 Đang kiểm tra số dư và thông tin sản phẩm...");
+    const check = await checkAutoBuyFunds(getMonitorAccount(monitor) || user, monitor, spec.amount, spec.limit);
+    if (check.error) return ctx.reply(`❌ ${check.error}`);
+    if (check.shortfall) return ctx.reply(insufficientFundsMessage(check.shortfall, "hẹn giờ Auto-buy", "đặt lịch hẹn giờ"));
   } catch (error) {
-    console.error("Schedule Balance Check Error:", error);
+    logError("Schedule Balance Check Error", error, "buy", userId);
     return ctx.reply("❌ Đã xảy ra lỗi khi kiểm tra số dư. Vui lòng thử lại sau.");
   }
 
-  const stmt = db.prepare("UPDATE monitors SET schedule_time = ?, schedule_amount = ?, schedule_limit = ? WHERE (id = ? OR product_id = ?) AND user_id = ?");
-  const result = stmt.run(normalizedTime, parseInt(amount), parseInt(limit), id, id, userId);
+  const scheduleId = createSchedule(monitor.id, userId, spec);
+  log(`Hẹn giờ Auto-buy #${scheduleId} cho ID ${id} theo lịch \`${spec.cronExpr}\` (SL: ${spec.amount}, Giới hạn: ${spec.limit || "Không"})`, userId, scope.workspaceId, { category: "buy", productId: monitor.product_id });
+  ctx.reply(
+    `⏰ **Đã đặt lịch hẹn giờ Auto-buy #${scheduleId} cho ID: ${id}**\n` +
+    `- Lịch: \`${spec.cronExpr}\` (${spec.recurring ? "lặp lại" : "một lần"}, Giờ VN)\n` +
+    `- Lần chạy tới: ${formatScheduleTime(spec.nextRun)}\n` +
+    `- Số lượng mỗi lần: ${spec.amount}\n` +
+    `- Tổng giới hạn mua: ${spec.limit > 0 ? spec.limit + " con" : "Không giới hạn"}\n` +
+    (spec.endTime ? `- Tự động tắt lúc: ${spec.endTime}\n` : "") +
+    `\n_Lưu ý: Khi đến giờ, bot sẽ tự động bật Auto-buy cho sản phẩm này. Dùng /schedules để xem hoặc huỷ._`
+  );
+});
+
+defineCommand({
+  name: "schedules", role: "viewer", args: "[del <mã>]", section: "buying", description: "Xem / huỷ từng lịch hẹn giờ"
+}, (ctx, text, scope) => {
+  const userId = ctx.from.id.toString();
+  const parts = text.split(/\s+/);
+
+  if (parts[1] === "del" || parts[1] === "cancel") {
+    const scheduleId = parseInt(parts[2]);
+    if (isNaN(scheduleId)) return ctx.reply("Sử dụng: /schedules del <mã lịch hẹn>");
+    if (!hasRole(scope.role, "buyer")) return ctx.reply(`⛔ Huỷ lịch hẹn cần quyền ${ROLE_LABELS.buyer} trong workspace.`);
+
+    const schedule = db.prepare(`SELECT * FROM schedules WHERE id = ? AND monitor_id IN (SELECT id FROM monitors WHERE ${scope.where})`).get(scheduleId, scope.param) as any;
+    if (!schedule) return ctx.reply(`❌ Không tìm thấy lịch hẹn #${scheduleId}. Dùng /schedules để xem danh sách.`);
+
+    cancelSchedule(schedule);
+    log(`Huỷ lịch hẹn giờ #${scheduleId}`, userId, scope.workspaceId, { category: "buy" });
+    return ctx.reply(`🔕 Đã huỷ lịch hẹn #${scheduleId}.`);
+  }
+
+  const rows = db.prepare(`
+    SELECT s.*, m.product_id, m.product_name FROM schedules s
+    JOIN monitors m ON m.id = s.monitor_id
+    WHERE m.id IN (SELECT id FROM monitors WHERE ${scope.where}) ORDER BY s.monitor_id, s.id
+  `).all(scope.param) as any[];
+  if (rows.length === 0) return ctx.reply("ℹ️ Hiện tại không có lịch hẹn giờ nào đang được đặt.\n\n" + SCHEDULE_USAGE);
+
+  let message = "⏰ **Danh sách lịch hẹn giờ Auto-buy:**\n";
+  let lastMonitorId: number | null = null;
+  rows.forEach(row => {
+    if (row.monitor_id !== lastMonitorId) {
+      message += `\n📦 ${row.product_name} (Monitor ID: ${row.monitor_id} | Product ID: ${row.product_id})\n`;
+      lastMonitorId = row.monitor_id;
+    }
+    message += `   ${describeSchedule(row)}\n`;
+  });
+  message += "\nHuỷ một lịch hẹn: /schedules del <mã lịch hẹn>";
+  ctx.reply(message);
+});
 
+defineCommand({
+  name: "stop_schedule", role: "buyer", section: "buying", description: "Huỷ tất cả lịch hẹn giờ Auto-buy",
+  menu: { text: "🔕 Tắt tất cả hẹn giờ", order: 8 }
+}, (ctx, _text, scope) => {
+  const userId = ctx.from.id.toString();
+  const result = db.prepare(`DELETE FROM schedules WHERE monitor_id IN (SELECT id FROM monitors WHERE ${scope.where})`).run(scope.param);
   if (result.changes > 0) {
-    log(`Hẹn giờ Auto-buy cho ID ${id} lúc ${normalizedTime} (SL: ${amount}, Giới hạn: ${limit === "0" ? "Không" : limit})`, userId);
-    ctx.reply(
-      `⏰ **Đã đặt lịch hẹn giờ Auto-buy cho ID: ${id}**\n` +
-      `- Thời gian kích hoạt: ${normalizedTime} (Giờ VN)\n` +
-      `- Số lượng mỗi lần: ${amount}\n` +
-      `- Tổng giới hạn mua: ${limit === "0" ? "Không giới hạn" : limit + " con"}\n\n` +
-      `_Lưu ý: Khi đến giờ, bot sẽ tự động bật Auto-buy cho sản phẩm này._`
-    );
+    ctx.reply(`🔕 Đã huỷ thành công ${result.changes} lịch hẹn giờ Auto-buy.`);
+    log(`Huỷ tất cả lịch hẹn giờ`, userId, scope.workspaceId, { category: "buy" });
   } else {
-    ctx.reply("❌ Không tìm thấy sản phẩm trong danh sách theo dõi của bạn. Vui lòng dùng /list để kiểm tra lại ID (Monitor ID hoặc Product ID).");
+    ctx.reply("ℹ️ Hiện tại không có lịch hẹn giờ nào đang được đặt.");
   }
 });
 
+defineCommand({
+  name: "schedule_guide", section: "buying", description: "Hướng dẫn đặt hẹn giờ Auto-buy",
+  menu: { text: "⏰ Đặt hẹn giờ", order: 7 }
+}, (ctx) => {
+  ctx.reply(
+    "⏰ **Hướng dẫn Đặt Hẹn Giờ Auto-buy**\n\n" +
+    "Bạn có thể lên lịch để bot tự động bật Auto-buy vào một thời điểm cụ thể trong ngày (giờ Việt Nam).\n\n" +
+    "**Cú pháp:**\n" +
+    "`/schedule <id> <HH:mm> <số lượng mỗi lần> [tổng giới hạn mua]`\n\n" +
+    "**Ví dụ:**\n" +
+    "🔹 `/schedule 21 15:30 10 50`\n" +
+    "_(Hẹn đúng 15:30 chiều sẽ tự động bật Auto-buy cho ID 21, mỗi lần mua 10 con, dừng khi mua đủ 50 con)_\n\n" +
+    "🔹 `/schedule 78 08:00 5`\n" +
+    "_(Hẹn 08:00 sáng tự động bật Auto-buy cho ID 78, mỗi lần mua 5 con, không giới hạn tổng số)_\n\n" +
+    "🔹 `/schedule 21 15:30 5 days=1-5 until=16:00`\n" +
+    "_(Thứ 2 đến Thứ 6, bật Auto-buy lúc 15:30 và tự tắt lúc 16:00)_\n\n" +
+    "🔹 `/schedule 21 \"0 8,20 * * *\" 2`\n" +
+    "_(Biểu thức cron: mỗi ngày lúc 08:00 và 20:00)_\n\n" +
+    "💡 *Lưu ý:* Khi đến giờ, bot sẽ tự động bật Auto-buy và gửi thông báo cho bạn. Nếu bot bị tắt đúng lúc hẹn, lịch sẽ được chạy bù khi bot khởi động lại. Dùng `/schedules` để xem hoặc huỷ từng lịch.",
+    { parse_mode: "Markdown" }
+  );
+});
+
 // Background Monitor for All Users - Every 2s
 let isScanning = false;
-cron.schedule("*/2 * * * * *", async () => {
+cron.schedule(`*/${SCAN_INTERVAL_SECONDS.general} * * * * *`, async () => {
   if (isScanning) {
     console.log("[General Monitor] Skip scan: previous scan still running (chống chéo)");
+    incMetric("shopbot_scans_skipped_total", { job: "general" });
     return;
   }
   isScanning = true;
+  const started = Date.now();
   try {
     lastScanTime = new Date().toLocaleTimeString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' });
-    const monitors = db.prepare("SELECT * FROM monitors").all();
+    await processSchedules();
+    const monitors = db.prepare("SELECT * FROM monitors WHERE user_id NOT IN (SELECT user_id FROM blocked_users)").all();
     if (monitors.length > 0) {
       console.log(`[General Monitor] Running scan for ${monitors.length} items...`);
       await processMonitors(monitors);
     }
+    scanCompletedAt.general = Date.now();
   } finally {
     isScanning = false;
+    observeMetric("shopbot_scan_duration_seconds", { job: "general" }, (Date.now() - started) / 1000);
   }
 });
 
-// Background Monitor for Azeem Status - Every 15s, deletes previous message
-const lastAzeemAmounts = new Map<string, number>();
-let isAzeemScanning = false;
+// Background Group Reports - Every 15s, only sent when a subscribed group's stock changed, deletes previous message
+const lastGroupAmounts = new Map<number, Map<string, number>>();
+let isGroupScanning = false;
 
-cron.schedule("*/15 * * * * *", async () => {
-  if (isAzeemScanning) return;
-  isAzeemScanning = true;
+cron.schedule(`*/${SCAN_INTERVAL_SECONDS.group_report} * * * * *`, async () => {
+  if (isGroupScanning) {
+    incMetric("shopbot_scans_skipped_total", { job: "group_report" });
+    return;
+  }
+  isGroupScanning = true;
+  const started = Date.now();
   try {
-    lastAzeemReportTime = new Date().toLocaleTimeString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' });
-    const targetIds = ["21", "108"];
+    lastGroupReportTime = new Date().toLocaleTimeString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' });
     
-    const users = db.prepare("SELECT DISTINCT user_id, chat_id FROM monitors").all();
-    for (const u of users as any) {
-      const userId = u.user_id;
-      const chatId = u.chat_id;
-      const user = getUser(userId);
+    const groups = db.prepare("SELECT * FROM watch_groups WHERE subscribed = 1 AND user_id NOT IN (SELECT user_id FROM blocked_users)").all() as any[];
+    for (const group of groups) {
+      const user = getUser(group.user_id);
       if (!user) continue;
 
       try {
-        const data = await getCachedAPI(user.username, user.password);
-        const categories = data.categories || [];
-        
-        let hasChanges = false;
-        let report = "📋 **THÔNG BÁO BIẾN ĐỘNG KHO AZEEM:**\n\n";
-        for (const id of targetIds) {
-          const product = findProductInCategories(categories, id);
-          const name = product ? product.name : `ID ${id}`;
-          const amount = product ? parseInt(product.amount) || 0 : 0;
-          const price = product ? product.price : "N/A";
-          
-          const cacheKey = `${userId}:${id}`;
-          const lastAmount = lastAzeemAmounts.get(cacheKey);
-          
-          let changeText = "";
-          if (lastAmount !== undefined && lastAmount !== amount) {
-            hasChanges = true;
-            const diff = amount - lastAmount;
-            if (diff > 0) {
-              changeText = ` (📈 Tăng ${diff})`;
-            } else {
-              changeText = ` (📉 Giảm ${Math.abs(diff)})`;
-            }
-          } else if (lastAmount === undefined && amount > 0) {
-            hasChanges = true;
-            changeText = ` (🆕 Mới xuất hiện)`;
-          }
-          
-          lastAzeemAmounts.set(cacheKey, amount);
-          
-          report += `🔹 **${name}** (ID: ${id})\n   📦 Số lượng: **${amount}**${changeText}\n   💰 Giá: ${price}\n\n`;
-        }
-        report += `_Cập nhật tự động: ${new Date().toLocaleTimeString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' })}_`;
+        const data = await getCachedAPI(user.username, user.password, user.provider);
+        if (!lastGroupAmounts.has(group.id)) lastGroupAmounts.set(group.id, new Map());
+        const { report, hasChanges } = buildGroupReport(
+          `THÔNG BÁO BIẾN ĐỘNG KHO NHÓM ${group.name.toUpperCase()}:`,
+          data.categories || [],
+          getGroupProductIds(group.id),
+          user.provider,
+          lastGroupAmounts.get(group.id)
+        );
         
-        console.log(`[Azeem Check] User ${userId} - Has Changes: ${hasChanges}`);
+        console.log(`[Group Report] User ${group.user_id} - Group ${group.name} - Has Changes: ${hasChanges}`);
 
         if (hasChanges) {
-          log(`Kho Azeem có sự thay đổi số lượng, đang gửi báo cáo...`, userId);
+          log(`Kho nhóm ${group.name} có sự thay đổi số lượng, đang gửi báo cáo...`, group.user_id, null, { category: "scan" });
           // Delete old message
-          const oldMsgId = lastAzeemMessageIds.get(chatId);
+          const messageKey = `${group.chat_id}:${group.id}`;
+          const oldMsgId = lastGroupMessageIds.get(messageKey);
           if (oldMsgId) {
-            try { await bot.telegram.deleteMessage(chatId, oldMsgId); } catch (e) { /* ignore */ }
+            try { await bot.telegram.deleteMessage(group.chat_id, oldMsgId); } catch (e) { /* ignore */ }
           }
 
           try {
-            const newMsg = await bot.telegram.sendMessage(chatId, report, { parse_mode: 'Markdown' });
-            lastAzeemMessageIds.set(chatId, newMsg.message_id);
+            const newMsg = await bot.telegram.sendMessage(group.chat_id,
+              report + `_Cập nhật tự động: ${new Date().toLocaleTimeString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' })}_`,
+              { parse_mode: 'Markdown' }
+            );
+            lastGroupMessageIds.set(messageKey, newMsg.message_id);
           } catch (sendError) {
-            // Ignore
+            logError(`Failed to send group report ${group.name} to ${group.chat_id}`, sendError, "telegram", group.user_id);
           }
         }
       } catch (error) {
-        // Silent fail
+        logError(`Group report ${group.name} failed`, error, "scan", group.user_id);
       }
     }
+    scanCompletedAt.group_report = Date.now();
   } finally {
-    isAzeemScanning = false;
+    isGroupScanning = false;
+    observeMetric("shopbot_scan_duration_seconds", { job: "group_report" }, (Date.now() - started) / 1000);
   }
 });
 
-bot.command("azeem", async (ctx) => {
-  const userId = ctx.from.id.toString();
-  const user = getUser(userId);
-  if (!user) return ctx.reply("⚠️ Bạn chưa đăng nhập. Vui lòng đăng nhập trước: /login <user> <pass>");
+// Watchdog - messages admins when scans stop completing, a shop endpoint starts failing or the database turns
+// read-only, and again once the problem has cleared
+const WATCHDOG_INTERVAL_MS = 30 * 1000;
 
-  ctx.reply("🔍 Đang kiểm tra trạng thái kho Azeem hiện tại...");
-  try {
-    const data = await getCachedAPI(user.username, user.password);
-    const categories = data.categories || [];
-    const targetIds = ["21", "108"];
-    
-    let report = "📋 **TRẠNG THÁI KHO AZEEM HIỆN TẠI:**\n\n";
-    for (const id of targetIds) {
-      const product = findProductInCategories(categories, id);
-      const name = product ? product.name : `ID ${id}`;
-      const amount = product ? parseInt(product.amount) || 0 : 0;
-      const price = product ? product.price : "N/A";
-      report += `🔹 **${name}** (ID: ${id})\n   📦 Số lượng: **${amount}**\n   💰 Giá: ${price}\n\n`;
-    }
-    report += `_Kiểm tra lúc: ${new Date().toLocaleTimeString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' })}_`;
-    
-    ctx.reply(report, { parse_mode: 'Markdown' });
-    log("Đã kiểm tra thủ công kho Azeem qua lệnh /azeem", userId);
-  } catch (error) {
-    ctx.reply("❌ Lỗi khi lấy dữ liệu kho Azeem.");
+async function notifyAdmins(message: string) {
+  for (const adminId of ADMIN_USER_IDS) {
+    try {
+      await bot.telegram.sendMessage(adminId, message);
+    } catch (e) {
+      logError(`Failed to alert admin ${adminId}`, e, "telegram");
+    }
   }
-});
+}
+
+function runWatchdog() {
+  checkDatabaseWritable();
+  const report = healthReport();
+  const problems = new Map<string, string>();
+
+  (Object.keys(report.scans) as ScanJob[]).forEach(job => {
+    const scan = report.scans[job];
+    if (scan.stalled) {
+      problems.set(`scan:${job}`, `Quét ${SCAN_JOB_LABELS[job]} không hoàn tất lần nào trong ${scan.age_seconds} giây.`);
+    }
+  });
+  for (const upstream of report.upstream) {
+    const key = `upstream:${upstream.provider}:${upstream.endpoint}`;
+    const threshold = watchdogAlerts.has(key) ? UPSTREAM_RECOVERY_RATE : UPSTREAM_ALERT_RATE;
+    if (upstream.requests_5m >= UPSTREAM_MIN_REQUESTS && upstream.error_rate_5m >= threshold) {
+      problems.set(key,
+        `API shop ${upstream.provider} ${upstream.endpoint} lỗi ${Math.round(upstream.error_rate_5m * 100)}% ` +
+        `(${upstream.errors_5m}/${upstream.requests_5m} yêu cầu trong 5 phút).\nLỗi gần nhất: ${upstream.last_error}`);
+    }
+  }
+  if (!report.database.writable) {
+    problems.set("database", `Không ghi được cơ sở dữ liệu: ${report.database.error}`);
+  }
+
+  problems.forEach((message, key) => {
+    if (watchdogAlerts.has(key)) return;
+    watchdogAlerts.set(key, { since: Date.now(), message });
+    log(`Watchdog: ${message}`, null, null, { level: "error", category: "system", context: { alert: key } });
+    notifyAdmins(`🚨 CẢNH BÁO HỆ THỐNG\n\n${message}`);
+  });
+  watchdogAlerts.forEach((alert, key) => {
+    if (problems.has(key)) return;
+    watchdogAlerts.delete(key);
+    const minutes = Math.max(1, Math.round((Date.now() - alert.since) / 60000));
+    log(`Watchdog: đã phục hồi sau ${minutes} phút - ${alert.message}`, null, null, { category: "system", context: { alert: key } });
+    notifyAdmins(`✅ ĐÃ PHỤC HỒI (sau ${minutes} phút)\n\n${alert.message}`);
+  });
+}
+
+checkDatabaseWritable();
+setInterval(runWatchdog, WATCHDOG_INTERVAL_MS);
 
 async function startServer() {
   // Launch bot if token is available
   if (BOT_TOKEN && BOT_TOKEN !== "DUMMY_TOKEN") {
     try {
-      bot.telegram.setMyCommands([
-        { command: 'menu', description: 'Hiển thị menu điều khiển' },
-        { command: 'login', description: 'Đăng nhập tài khoản shop' },
-        { command: 'logout', description: 'Đăng xuất tài khoản' },
-        { command: 'list', description: 'Danh sách sản phẩm đang theo dõi' },
-        { command: 'balance', description: 'Kiểm tra số dư tài khoản' },
-        { command: 'azeem', description: 'Kiểm tra nhanh kho Azeem' },
-        { command: 'status', description: 'Kiểm tra trạng thái hoạt động của Bot' },
-        { command: 'logs', description: 'Xem nhật ký hoạt động' },
-      ]).catch(err => console.error("Failed to set commands:", err));
+      bot.telegram.setMyCommands(botCommandList("private"))
+        .catch(err => logError("Failed to set commands", err, "telegram"));
+      bot.telegram.setMyCommands(botCommandList("group"), { scope: { type: "all_group_chats" } })
+        .catch(err => logError("Failed to set group commands", err, "telegram"));
 
       const launchBot = async (retries = 3) => {
+        telegramState.retriesLeft = retries;
         try {
-          await bot.launch({ dropPendingUpdates: true });
-          console.log("✅ Telegram bot is running (Polling)...");
+          // launch() only settles once polling ends, so "running" is reported from its onLaunch callback
+          await bot.launch({ dropPendingUpdates: true }, () => {
+            setTelegramState("running", null);
+            console.log("✅ Telegram bot is running (Polling)...");
+          });
+          setTelegramState("stopped");
         } catch (err: any) {
           if (err.response && err.response.error_code === 409 && retries > 0) {
-            console.warn(`⚠️ Bot launch conflict (409). Retrying in 3 seconds... (${retries} retries left)`);
+            telegramState.conflicts++;
+            setTelegramState("retrying", err.message);
+            log(`⚠️ Bot launch conflict (409). Retrying in 3 seconds... (${retries} retries left)`, null, null, { level: "warn", category: "telegram" });
             setTimeout(() => launchBot(retries - 1), 3000);
           } else {
-            console.error("❌ Failed to launch Telegram bot:", err);
+            setTelegramState("failed", err.message || String(err));
+            logError("❌ Failed to launch Telegram bot", err, "telegram");
           }
         }
       };
       launchBot();
     } catch (err) {
-      console.error("❌ Unexpected error during bot launch:", err);
+      logError("❌ Unexpected error during bot launch", err, "telegram");
     }
   } else {
+    setTelegramState("disabled");
     console.warn("⚠️ TELEGRAM_BOT_TOKEN is not set. Bot will not start.");
   }
 
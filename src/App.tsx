@@ -4,7 +4,7 @@
  */
 
 import React, { useEffect, useState } from 'react';
-import { Bot, ShoppingCart, Bell, Settings, Activity, Trash2, Power } from 'lucide-react';
+import { Bot, ShoppingCart, Bell, Settings, Activity, Trash2, Power, LineChart, LogOut, KeyRound, Wallet, Plus, Clock, X, PackageX, XCircle, Radio, Search, Copy, Check, ChevronLeft, ChevronRight, ScrollText, Download } from 'lucide-react';
 import { motion } from 'framer-motion';
 
 interface Stat {
@@ -12,22 +12,302 @@ interface Stat {
   status: string;
 }
 
+interface HistoryPoint {
+  amount: number;
+  price: number;
+  timestamp: number;
+}
+
+interface StockHistory {
+  from: number;
+  to: number;
+  points: HistoryPoint[];
+  stats: {
+    minAmount: number;
+    maxAmount: number;
+    minPrice: number;
+    maxPrice: number;
+    restocks: number;
+    changes: number;
+  };
+}
+
+interface BotCommand {
+  name: string;
+  args: string;
+  description: string;
+}
+
+interface DashboardUser {
+  userId: string;
+  isAdmin: boolean;
+  accounts: { label: string; shop: string; active: boolean }[];
+}
+
+interface AccountBalance {
+  label: string;
+  shop: string;
+  active: boolean;
+  balance: string | null;
+}
+
+interface Order {
+  id: number;
+  product_id: string;
+  product_name: string | null;
+  quantity: number;
+  total_price: number;
+  status: string;
+  source: string | null;
+  created_at: string;
+}
+
+interface MonitorSchedule {
+  id: number;
+  cron: string;
+  recurring: boolean;
+  amount: number;
+  limit: number;
+  endTime: string | null;
+  nextRun: number | null;
+  running: boolean;
+}
+
+interface Monitor {
+  id: number;
+  productId: string;
+  productName: string;
+  provider: string;
+  status: string;
+  lastAmount: number;
+  account: string | null;
+  autoBuy: { enabled: boolean; amount: number; limit: number; bought: number };
+  schedules: MonitorSchedule[];
+}
+
+interface LiveEvent {
+  id: number;
+  type: 'in_stock' | 'out_of_stock' | 'autobuy_success' | 'autobuy_failed' | 'schedule_fired';
+  monitorId: number;
+  productId: string;
+  productName: string;
+  amount?: number;
+  message?: string;
+  timestamp: number;
+}
+
+interface CatalogProduct {
+  id: string;
+  name: string;
+  category: string;
+  categoryIndex: number;
+  price: number;
+  priceText: string;
+  amount: number;
+  monitored: boolean;
+}
+
+interface CatalogPage {
+  account: string;
+  shop: string;
+  categories: { index: number; name: string; count: number; inStock: number }[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  products: CatalogProduct[];
+}
+
+interface LogEntry {
+  id: number;
+  timestamp: string;
+  level: 'info' | 'warn' | 'error';
+  category: string;
+  productId: string | null;
+  message: string;
+  context: Record<string, unknown> | null;
+}
+
+const FEED_SIZE = 30;
+const CATALOG_PAGE_SIZE = 25;
+
+// Sends a JSON request and returns [ok, body, status]; the body carries { error } on failure
+async function sendJson(method: string, url: string, body?: unknown): Promise<[boolean, any, number]> {
+  const res = await fetch(url, {
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined
+  });
+  const data = await res.json().catch(() => ({}));
+  return [res.ok, data, res.status];
+}
+
 export default function App() {
+  const [user, setUser] = useState<DashboardUser | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
+
+  const fetchMe = async () => {
+    try {
+      const res = await fetch('/api/me');
+      setUser(res.ok ? await res.json() : null);
+    } catch (err) {
+      console.error('Failed to fetch session', err);
+    } finally {
+      setAuthChecked(true);
+    }
+  };
+
+  useEffect(() => {
+    // A /dashboard link carries the one-time code as ?code=...
+    const code = new URLSearchParams(window.location.search).get('code');
+    if (!code) {
+      fetchMe();
+      return;
+    }
+    window.history.replaceState(null, '', window.location.pathname);
+    fetch('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code })
+    }).finally(fetchMe);
+  }, []);
+
+  const logout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => null);
+    setUser(null);
+  };
+
+  if (!authChecked) return null;
+  if (!user) return <LoginScreen onLogin={fetchMe} />;
+  return <Dashboard user={user} onLogout={logout} onUnauthorized={() => setUser(null)} />;
+}
+
+function LoginScreen({ onLogin }: { onLogin: () => void }) {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async () => {
+    if (!code.trim()) return;
+    setSubmitting(true);
+    setError('');
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: code.trim() })
+      });
+      if (!res.ok) {
+        setError('Mã không hợp lệ hoặc đã hết hạn. Gửi /dashboard cho bot để lấy mã mới.');
+        return;
+      }
+      onLogin();
+    } catch (err) {
+      console.error('Failed to log in', err);
+      setError('Không kết nối được máy chủ.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#f5f5f0] text-[#1a1a1a] font-sans flex items-center justify-center p-6">
+      <motion.div 
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-sm bg-white rounded-3xl p-8 shadow-sm border border-[#5A5A40]/5"
+      >
+        <div className="w-12 h-12 bg-[#5A5A40] rounded-full flex items-center justify-center text-white mb-6">
+          <KeyRound size={24} />
+        </div>
+        <h1 className="text-2xl font-serif font-medium mb-2">Đăng nhập</h1>
+        <p className="text-sm text-[#5A5A40]/60 mb-6">Gửi lệnh /dashboard cho bot Telegram để nhận mã đăng nhập dùng một lần.</p>
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          placeholder="Mã đăng nhập"
+          className="w-full px-4 py-3 bg-[#f5f5f0] rounded-xl text-sm font-mono uppercase tracking-widest outline-none mb-3"
+        />
+        {error && <p className="text-xs text-red-600 mb-3">{error}</p>}
+        <button
+          onClick={submit}
+          disabled={submitting || !code.trim()}
+          className="w-full px-4 py-3 bg-[#5A5A40] text-white rounded-xl text-sm font-medium hover:bg-[#4a4a35] transition-colors disabled:opacity-50"
+        >
+          {submitting ? 'Đang kiểm tra...' : 'Đăng nhập'}
+        </button>
+      </motion.div>
+    </div>
+  );
+}
+
+function Dashboard({ user, onLogout, onUnauthorized }: { user: DashboardUser, onLogout: () => void, onUnauthorized: () => void }) {
   const [stats, setStats] = useState<Stat[]>([]);
   const [loading, setLoading] = useState(true);
 
+  // Stats are refreshed on every live event; the slow poll only covers changes made elsewhere
   useEffect(() => {
     fetchStats();
-    const interval = setInterval(fetchStats, 10000);
+    const interval = setInterval(fetchStats, 60000);
     return () => clearInterval(interval);
   }, []);
 
-  const [apiData, setApiData] = useState<any[]>([]);
-  const [fetchingApi, setFetchingApi] = useState(false);
+  const [events, setEvents] = useState<LiveEvent[]>([]);
+  const [live, setLive] = useState(false);
+
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const connect = () => {
+      source = new EventSource('/api/events');
+      source.onopen = () => {
+        setLive(true);
+        fetchStats();
+      };
+      source.onmessage = (e) => {
+        const event: LiveEvent = JSON.parse(e.data);
+        setEvents(prev => prev.some(p => p.id === event.id) ? prev : [event, ...prev].slice(0, FEED_SIZE));
+        fetchStats();
+      };
+      source.onerror = () => {
+        setLive(false);
+        // The browser retries a dropped stream itself but gives up on an error response, e.g. while the server restarts
+        if (source?.readyState !== EventSource.CLOSED || stopped) return;
+        retryTimer = setTimeout(async () => {
+          const res = await fetch('/api/me').catch(() => null);
+          if (res?.status === 401) return onUnauthorized();
+          if (!stopped) connect();
+        }, 3000);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, []);
+
+  const [commands, setCommands] = useState<BotCommand[]>([]);
+
+  useEffect(() => {
+    fetch('/api/commands')
+      .then(res => res.ok ? res.json() : [])
+      .then(setCommands)
+      .catch(err => console.error('Failed to fetch commands', err));
+  }, []);
+
+  // Bumped when the catalog adds a monitor so the monitors table reloads
+  const [monitorsVersion, setMonitorsVersion] = useState(0);
 
   const fetchStats = async () => {
     try {
       const res = await fetch('/api/stats');
+      if (res.status === 401) return onUnauthorized();
       if (!res.ok) {
         const text = await res.text();
         console.error(`Stats API returned ${res.status}: ${text.substring(0, 100)}`);
@@ -47,29 +327,6 @@ export default function App() {
     }
   };
 
-  const fetchApiData = async () => {
-    setFetchingApi(true);
-    try {
-      const res = await fetch('/api/external-list');
-      if (!res.ok) {
-        const text = await res.text();
-        console.error(`External API returned ${res.status}: ${text.substring(0, 100)}`);
-        return;
-      }
-      const contentType = res.headers.get("content-type");
-      if (!contentType || !contentType.includes("application/json")) {
-        console.warn("Expected JSON, got HTML. Server might be restarting.");
-        return;
-      }
-      const data = await res.json();
-      setApiData(Array.isArray(data) ? data : (data.data || []));
-    } catch (err) {
-      console.error('Failed to fetch API data', err);
-    } finally {
-      setFetchingApi(false);
-    }
-  };
-
   return (
     <div className="min-h-screen bg-[#f5f5f0] text-[#1a1a1a] font-sans p-6 md:p-12">
       <div className="max-w-4xl mx-auto">
@@ -84,9 +341,20 @@ export default function App() {
               <p className="text-sm text-[#5A5A40]/60 italic">Bảng điều khiển Giám sát & Tự động hóa</p>
             </div>
           </div>
-          <div className="flex items-center gap-2 px-4 py-2 bg-white rounded-full border border-[#5A5A40]/10 shadow-sm">
-            <div className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse" />
-            <span className="text-xs font-medium uppercase tracking-wider">Bot đang hoạt động</span>
+          <div className="flex items-center gap-2">
+            <div className="flex items-center gap-2 px-4 py-2 bg-white rounded-full border border-[#5A5A40]/10 shadow-sm">
+              <div className={`w-2 h-2 rounded-full ${live ? 'bg-emerald-500 animate-pulse' : 'bg-[#5A5A40]/30'}`} title={live ? 'Đang nhận cập nhật trực tiếp' : 'Mất kết nối, đang thử lại...'} />
+              <span className="text-xs font-medium uppercase tracking-wider">
+                {user.accounts.find(a => a.active)?.label || user.userId}
+              </span>
+            </div>
+            <button
+              onClick={onLogout}
+              title="Đăng xuất"
+              className="w-9 h-9 bg-white rounded-full border border-[#5A5A40]/10 shadow-sm flex items-center justify-center text-[#5A5A40] hover:bg-[#f5f5f0]"
+            >
+              <LogOut size={16} />
+            </button>
           </div>
         </header>
 
@@ -112,58 +380,17 @@ export default function App() {
           />
         </div>
 
-        {/* Live API Data */}
-        <motion.div 
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="bg-white rounded-3xl p-8 shadow-sm border border-[#5A5A40]/5 mb-12"
-        >
-          <div className="flex items-center justify-between mb-6">
-            <h2 className="text-xl font-serif flex items-center gap-2">
-              <Activity size={20} className="text-[#5A5A40]" />
-              Dữ liệu API Trực tiếp
-            </h2>
-            <button 
-              onClick={fetchApiData}
-              disabled={fetchingApi}
-              className="px-4 py-2 bg-[#5A5A40] text-white rounded-xl text-xs font-medium hover:bg-[#4a4a35] transition-colors disabled:opacity-50"
-            >
-              {fetchingApi ? 'Đang tải...' : 'Làm mới danh sách API'}
-            </button>
-          </div>
+        <ActivityFeed events={events} live={live} />
 
-          <div className="overflow-x-auto">
-            <table className="w-full text-left text-sm">
-              <thead>
-                <tr className="border-b border-[#f5f5f0]">
-                  <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">ID</th>
-                  <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">Tên sản phẩm</th>
-                  <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">Giá</th>
-                  <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">Hành động</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-[#f5f5f0]">
-                {apiData.length > 0 ? apiData.slice(0, 5).map((item) => (
-                  <tr key={item.id}>
-                    <td className="py-4 font-mono text-xs">{item.id}</td>
-                    <td className="py-4 font-medium">{item.name || item.title || item.resource_name || 'N/A'}</td>
-                    <td className="py-4 text-[#5A5A40]/60">{item.price || item.amount || 'N/A'}</td>
-                    <td className="py-4">
-                      <button className="text-[#5A5A40] hover:underline text-xs">Sao chép ID</button>
-                    </td>
-                  </tr>
-                )) : (
-                  <tr>
-                    <td colSpan={4} className="py-8 text-center text-[#5A5A40]/30 italic">Chưa có dữ liệu. Nhấn làm mới để xem danh sách sản phẩm.</td>
-                  </tr>
-                )}
-              </tbody>
-            </table>
-            {apiData.length > 5 && (
-              <p className="mt-4 text-[10px] text-[#5A5A40]/40 text-center">Đang hiển thị 5 trên {apiData.length} sản phẩm</p>
-            )}
-          </div>
-        </motion.div>
+        <CatalogExplorer onUnauthorized={onUnauthorized} onMonitored={() => setMonitorsVersion(v => v + 1)} />
+
+        <MonitorsPanel onUnauthorized={onUnauthorized} refreshKey={monitorsVersion} />
+
+        <AccountPanel onUnauthorized={onUnauthorized} />
+
+        <StockHistoryPanel />
+
+        <LogsPanel onUnauthorized={onUnauthorized} />
 
         {/* Instructions */}
         <motion.div 
@@ -197,17 +424,9 @@ export default function App() {
           <div className="mt-12 pt-8 border-t border-[#f5f5f0]">
             <h3 className="text-sm font-semibold uppercase tracking-widest text-[#5A5A40]/40 mb-4">Lệnh của Bot</h3>
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-              <CommandItem cmd="/api_list" desc="Danh sách sản phẩm API" />
-              <CommandItem cmd="/check <id>" desc="Kiểm tra kho nhanh" />
-              <CommandItem cmd="/azeem" desc="Kiểm tra kho Azeem" />
-              <CommandItem cmd="/auto_setup" desc="Thêm ID Azeem vào danh sách" />
-              <CommandItem cmd="/get <id>" desc="Xem JSON gốc từ API" />
-              <CommandItem cmd="/buy <id> <qty>" desc="Mua tài khoản" />
-              <CommandItem cmd="/monitor <id>" desc="Theo dõi sản phẩm theo ID" />
-              <CommandItem cmd="/list" desc="Danh sách đang theo dõi" />
-              <CommandItem cmd="/scan" desc="Quét thủ công tất cả" />
-              <CommandItem cmd="/stop <id>" desc="Dừng theo dõi sản phẩm" />
-              <CommandItem cmd="/autobuy <id> <1|0>" desc="Bật/tắt tự động mua" />
+              {commands.map(c => (
+                <CommandItem key={c.name} cmd={`/${c.name}${c.args ? ` ${c.args}` : ''}`} desc={c.description} />
+              ))}
             </div>
           </div>
         </motion.div>
@@ -254,3 +473,775 @@ function CommandItem({ cmd, desc }: { cmd: string, desc: string }) {
     </div>
   );
 }
+
+const EVENT_STYLES: { [key in LiveEvent['type']]: { label: string, icon: React.ReactNode, color: string } } = {
+  in_stock: { label: 'Có hàng', icon: <Bell size={14} />, color: 'bg-amber-50 text-amber-600' },
+  out_of_stock: { label: 'Hết hàng', icon: <PackageX size={14} />, color: 'bg-[#f5f5f0] text-[#5A5A40]/60' },
+  autobuy_success: { label: 'Auto-buy thành công', icon: <ShoppingCart size={14} />, color: 'bg-emerald-50 text-emerald-600' },
+  autobuy_failed: { label: 'Auto-buy thất bại', icon: <XCircle size={14} />, color: 'bg-red-50 text-red-600' },
+  schedule_fired: { label: 'Đến giờ hẹn', icon: <Clock size={14} />, color: 'bg-blue-50 text-blue-600' }
+};
+
+function describeEvent(event: LiveEvent) {
+  switch (event.type) {
+    case 'in_stock': return `Còn ${event.amount} trong kho`;
+    case 'out_of_stock': return 'Đã hết hàng';
+    case 'autobuy_success': return `Đã mua ${event.message || event.amount}`;
+    case 'autobuy_failed': return event.message || 'Không mua được';
+    case 'schedule_fired': return `Bật Auto-buy theo lịch hẹn ${event.message || ''}`.trim();
+  }
+}
+
+function ActivityFeed({ events, live }: { events: LiveEvent[], live: boolean }) {
+  return (
+    <motion.div 
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-3xl p-8 shadow-sm border border-[#5A5A40]/5 mb-12"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-serif flex items-center gap-2">
+          <Radio size={20} className="text-[#5A5A40]" />
+          Hoạt động trực tiếp
+        </h2>
+        <span className={`text-[10px] uppercase tracking-wider ${live ? 'text-emerald-600' : 'text-[#5A5A40]/40'}`}>
+          {live ? 'Đang kết nối' : 'Đang kết nối lại...'}
+        </span>
+      </div>
+
+      {events.length > 0 ? (
+        <ul className="space-y-3 max-h-80 overflow-y-auto">
+          {events.map(event => (
+            <li key={event.id} className="flex items-center gap-3">
+              <div className={`w-8 h-8 rounded-xl flex items-center justify-center shrink-0 ${EVENT_STYLES[event.type].color}`}>
+                {EVENT_STYLES[event.type].icon}
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium truncate">{event.productName} <span className="font-mono text-[10px] text-[#5A5A40]/40">#{event.productId}</span></p>
+                <p className="text-xs text-[#5A5A40]/60">{EVENT_STYLES[event.type].label} • {describeEvent(event)}</p>
+              </div>
+              <span className="text-[10px] text-[#5A5A40]/40 shrink-0">
+                {new Date(event.timestamp).toLocaleTimeString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' })}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="py-8 text-center text-sm text-[#5A5A40]/30 italic">Chưa có hoạt động nào. Sự kiện có hàng, hết hàng và Auto-buy sẽ hiện ở đây ngay khi xảy ra.</p>
+      )}
+    </motion.div>
+  );
+}
+
+function MonitorsPanel({ onUnauthorized, refreshKey }: { onUnauthorized: () => void, refreshKey: number }) {
+  const [monitors, setMonitors] = useState<Monitor[]>([]);
+  const [productId, setProductId] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const fetchMonitors = async () => {
+    try {
+      const res = await fetch('/api/monitors');
+      if (res.status === 401) return onUnauthorized();
+      if (res.ok) setMonitors(await res.json());
+    } catch (err) {
+      console.error('Failed to fetch monitors', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchMonitors();
+  }, [refreshKey]);
+
+  // Runs a mutation, shows its error (with the balance shortfall if any) and reloads the table
+  const mutate = async (method: string, url: string, body?: unknown) => {
+    setBusy(true);
+    setError('');
+    try {
+      const [ok, data, status] = await sendJson(method, url, body);
+      if (status === 401) return onUnauthorized();
+      if (!ok) {
+        const shortfall = data.shortfall
+          ? ` (cần ${data.shortfall.totalCost.toLocaleString('vi-VN')}đ cho ${data.shortfall.quantity} sản phẩm, số dư ${data.shortfall.balance})`
+          : '';
+        setError(`${data.error || 'Lỗi không xác định'}${shortfall}`);
+        return false;
+      }
+      await fetchMonitors();
+      return true;
+    } catch (err) {
+      console.error('Monitor request failed', err);
+      setError('Không kết nối được máy chủ.');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addMonitor = async () => {
+    if (!productId.trim()) return;
+    if (await mutate('POST', '/api/monitors', { productId: productId.trim() })) setProductId('');
+  };
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-3xl p-8 shadow-sm border border-[#5A5A40]/5 mb-12"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-xl font-serif flex items-center gap-2">
+          <ShoppingCart size={20} className="text-[#5A5A40]" />
+          Sản phẩm theo dõi
+        </h2>
+        <div className="flex items-center gap-2">
+          <input
+            value={productId}
+            onChange={(e) => setProductId(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addMonitor()}
+            placeholder="Product ID"
+            className="w-28 px-3 py-2 bg-[#f5f5f0] rounded-xl text-xs font-mono outline-none"
+          />
+          <button 
+            onClick={addMonitor}
+            disabled={busy || !productId.trim()}
+            className="px-4 py-2 bg-[#5A5A40] text-white rounded-xl text-xs font-medium hover:bg-[#4a4a35] transition-colors disabled:opacity-50 flex items-center gap-1"
+          >
+            <Plus size={14} /> Theo dõi
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mb-4 px-4 py-3 bg-red-50 text-red-700 rounded-xl text-xs">{error}</p>}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-[#f5f5f0]">
+              <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">ID</th>
+              <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">Sản phẩm</th>
+              <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">Kho</th>
+              <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">Auto-buy (SL / Giới hạn)</th>
+              <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">Hẹn giờ</th>
+              <th className="pb-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[#f5f5f0]">
+            {monitors.length > 0 ? monitors.map(monitor => (
+              <MonitorRow key={monitor.id} monitor={monitor} busy={busy} mutate={mutate} />
+            )) : (
+              <tr>
+                <td colSpan={6} className="py-8 text-center text-[#5A5A40]/30 italic">Chưa theo dõi sản phẩm nào. Nhập Product ID để thêm.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </motion.div>
+  );
+}
+
+function CatalogExplorer({ onUnauthorized, onMonitored }: { onUnauthorized: () => void, onMonitored: () => void }) {
+  const [catalog, setCatalog] = useState<CatalogPage | null>(null);
+  const [query, setQuery] = useState('');
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState('');
+  const [sort, setSort] = useState('default');
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  // Wait for the user to stop typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(query.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const fetchCatalog = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ q: search, category, sort, page: String(page), pageSize: String(CATALOG_PAGE_SIZE) });
+      const res = await fetch(`/api/catalog?${params}`);
+      if (res.status === 401) return onUnauthorized();
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || 'Không tải được danh sách sản phẩm.');
+        return;
+      }
+      setError('');
+      setCatalog(data);
+    } catch (err) {
+      console.error('Failed to fetch catalog', err);
+      setError('Không kết nối được máy chủ.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCatalog();
+  }, [search, category, sort, page]);
+
+  const copyId = async (id: string) => {
+    try {
+      await navigator.clipboard.writeText(id);
+      setCopiedId(id);
+      setTimeout(() => setCopiedId(current => current === id ? null : current), 1500);
+    } catch (err) {
+      console.error('Failed to copy product ID', err);
+    }
+  };
+
+  const monitor = async (product: CatalogProduct) => {
+    setPendingId(product.id);
+    setError('');
+    try {
+      const [ok, data, status] = await sendJson('POST', '/api/monitors', { productId: product.id });
+      if (status === 401) return onUnauthorized();
+      // 409 means it is already monitored, which is what the user wanted anyway
+      if (!ok && status !== 409) {
+        setError(data.error || 'Lỗi không xác định');
+        return;
+      }
+      setCatalog(prev => prev && { ...prev, products: prev.products.map(p => p.id === product.id ? { ...p, monitored: true } : p) });
+      onMonitored();
+    } catch (err) {
+      console.error('Monitor request failed', err);
+      setError('Không kết nối được máy chủ.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const products = catalog?.products || [];
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-3xl p-8 shadow-sm border border-[#5A5A40]/5 mb-12"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-xl font-serif flex items-center gap-2">
+          <Activity size={20} className="text-[#5A5A40]" />
+          Danh mục sản phẩm
+          {catalog && <span className="text-xs font-sans text-[#5A5A40]/40">{catalog.shop} · {catalog.account}</span>}
+        </h2>
+        <button 
+          onClick={fetchCatalog}
+          disabled={loading}
+          className="px-4 py-2 bg-[#5A5A40] text-white rounded-xl text-xs font-medium hover:bg-[#4a4a35] transition-colors disabled:opacity-50"
+        >
+          {loading ? 'Đang tải...' : 'Làm mới'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <div className="flex items-center gap-2 flex-1 min-w-[12rem] px-3 py-2 bg-[#f5f5f0] rounded-xl">
+          <Search size={14} className="text-[#5A5A40]/50" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Tìm theo tên, danh mục hoặc ID"
+            className="flex-1 bg-transparent text-xs outline-none"
+          />
+        </div>
+        <select
+          value={category}
+          onChange={(e) => { setCategory(e.target.value); setPage(1); }}
+          className="px-3 py-2 bg-[#f5f5f0] rounded-xl text-xs outline-none"
+        >
+          <option value="">Tất cả danh mục</option>
+          {catalog?.categories.map(cat => (
+            <option key={cat.index} value={cat.index}>{cat.name} ({cat.inStock}/{cat.count})</option>
+          ))}
+        </select>
+        <select
+          value={sort}
+          onChange={(e) => { setSort(e.target.value); setPage(1); }}
+          className="px-3 py-2 bg-[#f5f5f0] rounded-xl text-xs outline-none"
+        >
+          <option value="default">{search ? 'Liên quan nhất' : 'Mặc định'}</option>
+          <option value="price_asc">Giá tăng dần</option>
+          <option value="price_desc">Giá giảm dần</option>
+          <option value="stock_desc">Kho nhiều nhất</option>
+          <option value="stock_asc">Kho ít nhất</option>
+          <option value="name">Tên A-Z</option>
+        </select>
+      </div>
+
+      {error && <p className="mb-4 px-4 py-3 bg-red-50 text-red-700 rounded-xl text-xs">{error}</p>}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-[#f5f5f0]">
+              <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">ID</th>
+              <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">Tên sản phẩm</th>
+              <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">Giá</th>
+              <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">Kho</th>
+              <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">Hành động</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[#f5f5f0]">
+            {products.length > 0 ? products.map((product, i) => (
+              <React.Fragment key={product.id}>
+                {/* A category header starts each run of products from the same category */}
+                {(i === 0 || products[i - 1].categoryIndex !== product.categoryIndex) && (
+                  <tr>
+                    <td colSpan={5} className="pt-5 pb-2 text-[10px] font-semibold uppercase tracking-wider text-[#5A5A40]/60">{product.category}</td>
+                  </tr>
+                )}
+                <tr>
+                  <td className="py-4 font-mono text-xs">{product.id}</td>
+                  <td className="py-4 font-medium">{product.name}</td>
+                  <td className="py-4 text-[#5A5A40]/60">{product.price > 0 ? `${product.price.toLocaleString('vi-VN')}đ` : product.priceText}</td>
+                  <td className={`py-4 ${product.amount > 0 ? 'text-emerald-600' : 'text-[#5A5A40]/30'}`}>{product.amount}</td>
+                  <td className="py-4">
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => copyId(product.id)}
+                        className="text-[#5A5A40] hover:underline text-xs flex items-center gap-1"
+                      >
+                        {copiedId === product.id ? <><Check size={12} /> Đã sao chép</> : <><Copy size={12} /> Sao chép ID</>}
+                      </button>
+                      {product.monitored ? (
+                        <span className="text-xs text-emerald-600 flex items-center gap-1"><Bell size={12} /> Đang theo dõi</span>
+                      ) : (
+                        <button
+                          onClick={() => monitor(product)}
+                          disabled={pendingId !== null}
+                          className="text-[#5A5A40] hover:underline text-xs flex items-center gap-1 disabled:opacity-50"
+                        >
+                          <Plus size={12} /> Theo dõi
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              </React.Fragment>
+            )) : (
+              <tr>
+                <td colSpan={5} className="py-8 text-center text-[#5A5A40]/30 italic">
+                  {loading ? 'Đang tải danh sách sản phẩm...' : search ? `Không có sản phẩm nào khớp "${search}".` : 'Shop chưa có sản phẩm nào.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {catalog && catalog.total > 0 && (
+        <div className="flex items-center justify-between mt-4 text-xs text-[#5A5A40]/60">
+          <span>
+            {(catalog.page - 1) * catalog.pageSize + 1}-{Math.min(catalog.page * catalog.pageSize, catalog.total)} trên {catalog.total} sản phẩm
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(catalog.page - 1)}
+              disabled={loading || catalog.page <= 1}
+              className="w-8 h-8 bg-[#f5f5f0] rounded-xl flex items-center justify-center disabled:opacity-30"
+            >
+              <ChevronLeft size={14} />
+            </button>
+            <span>Trang {catalog.page} / {catalog.totalPages}</span>
+            <button
+              onClick={() => setPage(catalog.page + 1)}
+              disabled={loading || catalog.page >= catalog.totalPages}
+              className="w-8 h-8 bg-[#f5f5f0] rounded-xl flex items-center justify-center disabled:opacity-30"
+            >
+              <ChevronRight size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
+function MonitorRow({ monitor, busy, mutate }: { monitor: Monitor, busy: boolean, mutate: (method: string, url: string, body?: unknown) => Promise<boolean | void> }) {
+  const [amount, setAmount] = useState(String(monitor.autoBuy.amount));
+  const [limit, setLimit] = useState(String(monitor.autoBuy.limit));
+  const [time, setTime] = useState('');
+
+  const saveAutoBuy = (enabled: boolean) =>
+    mutate('PUT', `/api/monitors/${monitor.id}/autobuy`, { enabled, amount: parseInt(amount) || 1, limit: parseInt(limit) || 0 });
+
+  const addSchedule = async () => {
+    if (!time.trim()) return;
+    const ok = await mutate('POST', `/api/monitors/${monitor.id}/schedules`, { time: time.trim(), amount: parseInt(amount) || 1, limit: parseInt(limit) || 0 });
+    if (ok) setTime('');
+  };
+
+  return (
+    <tr className="align-top">
+      <td className="py-4 font-mono text-xs">{monitor.id}</td>
+      <td className="py-4">
+        <p className="font-medium">{monitor.productName}</p>
+        <p className="text-[10px] text-[#5A5A40]/50 font-mono">#{monitor.productId} • {monitor.provider}{monitor.account ? ` • ${monitor.account}` : ''}</p>
+      </td>
+      <td className="py-4">{monitor.lastAmount}</td>
+      <td className="py-4">
+        <div className="flex items-center gap-1">
+          <input value={amount} onChange={(e) => setAmount(e.target.value)} className="w-12 px-2 py-1 bg-[#f5f5f0] rounded-lg text-xs outline-none" />
+          <input value={limit} onChange={(e) => setLimit(e.target.value)} className="w-12 px-2 py-1 bg-[#f5f5f0] rounded-lg text-xs outline-none" />
+          <button
+            onClick={() => saveAutoBuy(!monitor.autoBuy.enabled)}
+            disabled={busy}
+            title={monitor.autoBuy.enabled ? 'Tắt Auto-buy' : 'Bật Auto-buy'}
+            className={`p-1.5 rounded-lg disabled:opacity-50 ${monitor.autoBuy.enabled ? 'bg-emerald-50 text-emerald-600' : 'bg-[#f5f5f0] text-[#5A5A40]/40'}`}
+          >
+            <Power size={14} />
+          </button>
+          {monitor.autoBuy.enabled && (
+            <button onClick={() => saveAutoBuy(true)} disabled={busy} className="text-[10px] text-[#5A5A40] hover:underline disabled:opacity-50">Lưu</button>
+          )}
+        </div>
+        {monitor.autoBuy.enabled && monitor.autoBuy.limit > 0 && (
+          <p className="text-[10px] text-[#5A5A40]/50 mt-1">Đã mua {monitor.autoBuy.bought}/{monitor.autoBuy.limit}</p>
+        )}
+      </td>
+      <td className="py-4">
+        {monitor.schedules.map(schedule => (
+          <div key={schedule.id} className="flex items-center gap-1 text-[10px] mb-1">
+            <Clock size={10} className={schedule.running ? 'text-emerald-600' : 'text-[#5A5A40]/50'} />
+            <code>{schedule.cron}</code>
+            <span className="text-[#5A5A40]/50">SL {schedule.amount}{schedule.limit > 0 ? `/${schedule.limit}` : ''}</span>
+            <button onClick={() => mutate('DELETE', `/api/schedules/${schedule.id}`)} disabled={busy} title="Huỷ lịch hẹn" className="text-red-500 disabled:opacity-50">
+              <X size={10} />
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center gap-1">
+          <input
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addSchedule()}
+            placeholder="HH:mm"
+            className="w-16 px-2 py-1 bg-[#f5f5f0] rounded-lg text-xs outline-none"
+          />
+          <button onClick={addSchedule} disabled={busy || !time.trim()} title="Thêm lịch hẹn" className="p-1 text-[#5A5A40] disabled:opacity-30">
+            <Plus size={12} />
+          </button>
+        </div>
+      </td>
+      <td className="py-4 text-right">
+        <button onClick={() => mutate('DELETE', `/api/monitors/${monitor.id}`)} disabled={busy} title="Dừng theo dõi" className="text-[#5A5A40]/40 hover:text-red-500 disabled:opacity-50">
+          <Trash2 size={16} />
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+const ORDER_STATUS_LABELS: { [key: string]: string } = {
+  success: 'Thành công',
+  failed: 'Thất bại',
+  error: 'Lỗi'
+};
+
+function AccountPanel({ onUnauthorized }: { onUnauthorized: () => void }) {
+  const [balances, setBalances] = useState<AccountBalance[]>([]);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchAccount = async () => {
+    setLoading(true);
+    try {
+      const [balanceRes, ordersRes] = await Promise.all([fetch('/api/balance'), fetch('/api/orders?limit=10')]);
+      if (balanceRes.status === 401 || ordersRes.status === 401) return onUnauthorized();
+      if (balanceRes.ok) setBalances(await balanceRes.json());
+      if (ordersRes.ok) setOrders(await ordersRes.json());
+    } catch (err) {
+      console.error('Failed to fetch account data', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAccount();
+  }, []);
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-3xl p-8 shadow-sm border border-[#5A5A40]/5 mb-12"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-serif flex items-center gap-2">
+          <Wallet size={20} className="text-[#5A5A40]" />
+          Tài khoản & Đơn hàng
+        </h2>
+        <button 
+          onClick={fetchAccount}
+          disabled={loading}
+          className="px-4 py-2 bg-[#5A5A40] text-white rounded-xl text-xs font-medium hover:bg-[#4a4a35] transition-colors disabled:opacity-50"
+        >
+          {loading ? 'Đang tải...' : 'Làm mới'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-8">
+        {balances.length > 0 ? balances.map(b => (
+          <div key={b.label} className="p-4 bg-[#f5f5f0] rounded-2xl">
+            <p className="text-xs text-[#5A5A40]/50">{b.label} • {b.shop}{b.active ? ' • đang dùng' : ''}</p>
+            <p className="text-lg font-serif font-medium">{b.balance ?? 'Không lấy được'}</p>
+          </div>
+        )) : (
+          <p className="text-sm text-[#5A5A40]/30 italic">Chưa có tài khoản shop. Dùng /login trong Telegram để thêm.</p>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-[#f5f5f0]">
+              <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">Đơn</th>
+              <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">Sản phẩm</th>
+              <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">SL</th>
+              <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">Tổng tiền</th>
+              <th className="pb-3 font-semibold text-[#5A5A40]/40 uppercase tracking-wider text-[10px]">Trạng thái</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[#f5f5f0]">
+            {orders.length > 0 ? orders.map(order => (
+              <tr key={order.id}>
+                <td className="py-4 font-mono text-xs">#{order.id}</td>
+                <td className="py-4 font-medium">{order.product_name || order.product_id}</td>
+                <td className="py-4">{order.quantity}</td>
+                <td className="py-4 text-[#5A5A40]/60">{order.total_price.toLocaleString('vi-VN')}đ</td>
+                <td className="py-4 text-xs">{ORDER_STATUS_LABELS[order.status] || order.status}</td>
+              </tr>
+            )) : (
+              <tr>
+                <td colSpan={5} className="py-8 text-center text-[#5A5A40]/30 italic">Chưa có đơn hàng nào.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </motion.div>
+  );
+}
+
+const LOG_CATEGORIES = ['scan', 'buy', 'auth', 'monitor', 'telegram', 'system'];
+const LOG_LEVEL_STYLES: { [key in LogEntry['level']]: string } = {
+  info: 'bg-[#f5f5f0] text-[#5A5A40]',
+  warn: 'bg-amber-50 text-amber-700',
+  error: 'bg-red-50 text-red-700'
+};
+
+function LogsPanel({ onUnauthorized }: { onUnauthorized: () => void }) {
+  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [level, setLevel] = useState('');
+  const [category, setCategory] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(false);
+
+  const filters = new URLSearchParams({ level, category });
+
+  const fetchLogs = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/logs?${filters}&page=${page}&pageSize=20`);
+      if (res.status === 401) return onUnauthorized();
+      if (!res.ok) return;
+      const data = await res.json();
+      setLogs(data.logs);
+      setTotalPages(data.totalPages);
+    } catch (err) {
+      console.error('Failed to fetch logs', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLogs();
+  }, [level, category, page]);
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-3xl p-8 shadow-sm border border-[#5A5A40]/5 mb-12"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-xl font-serif flex items-center gap-2">
+          <ScrollText size={20} className="text-[#5A5A40]" />
+          Nhật ký hoạt động
+        </h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={level}
+            onChange={(e) => { setLevel(e.target.value); setPage(1); }}
+            className="px-3 py-2 bg-[#f5f5f0] rounded-xl text-xs outline-none"
+          >
+            <option value="">Mọi mức độ</option>
+            <option value="warn">Cảnh báo trở lên</option>
+            <option value="error">Chỉ lỗi</option>
+          </select>
+          <select
+            value={category}
+            onChange={(e) => { setCategory(e.target.value); setPage(1); }}
+            className="px-3 py-2 bg-[#f5f5f0] rounded-xl text-xs outline-none"
+          >
+            <option value="">Mọi loại</option>
+            {LOG_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          {(['csv', 'json'] as const).map(format => (
+            <a
+              key={format}
+              href={`/api/logs/export?${filters}&format=${format}`}
+              className="px-3 py-2 bg-[#5A5A40] text-white rounded-xl text-xs font-medium hover:bg-[#4a4a35] transition-colors flex items-center gap-1"
+            >
+              <Download size={12} /> {format.toUpperCase()}
+            </a>
+          ))}
+        </div>
+      </div>
+
+      {logs.length > 0 ? (
+        <div className="divide-y divide-[#f5f5f0] text-xs">
+          {logs.map(entry => (
+            <div key={entry.id} className="py-3 flex items-start gap-3">
+              <span className="font-mono text-[#5A5A40]/50 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString('vi-VN')}</span>
+              <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase ${LOG_LEVEL_STYLES[entry.level]}`}>{entry.category}</span>
+              <span className="flex-1 break-words">{entry.message}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="py-8 text-center text-sm text-[#5A5A40]/30 italic">
+          {loading ? 'Đang tải nhật ký...' : 'Không có nhật ký nào khớp bộ lọc.'}
+        </p>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2 mt-4 text-xs text-[#5A5A40]/60">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={loading || page <= 1}
+            className="w-8 h-8 bg-[#f5f5f0] rounded-xl flex items-center justify-center disabled:opacity-30"
+          >
+            <ChevronLeft size={14} />
+          </button>
+          <span>Trang {page} / {totalPages}</span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={loading || page >= totalPages}
+            className="w-8 h-8 bg-[#f5f5f0] rounded-xl flex items-center justify-center disabled:opacity-30"
+          >
+            <ChevronRight size={14} />
+          </button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
+function StockHistoryPanel() {
+  const [productId, setProductId] = useState('');
+  const [range, setRange] = useState<'24h' | '7d'>('24h');
+  const [history, setHistory] = useState<StockHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchHistory = async (selectedRange = range) => {
+    if (!productId.trim()) return;
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/history/${encodeURIComponent(productId.trim())}?range=${selectedRange}`);
+      if (!res.ok) {
+        const text = await res.text();
+        console.error(`History API returned ${res.status}: ${text.substring(0, 100)}`);
+        return;
+      }
+      setHistory(await res.json());
+    } catch (err) {
+      console.error('Failed to fetch history', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const width = 600;
+  const height = 180;
+  const maxAmount = history ? Math.max(1, ...history.points.map(p => p.amount)) : 1;
+  const xOf = (t: number) => history ? ((t - history.from) / Math.max(1, history.to - history.from)) * width : 0;
+  const yOf = (v: number) => height - (v / maxAmount) * height;
+
+  // Stock only changes at recorded points, so plot it as a step line
+  const path = history && history.points.length > 0
+    ? history.points.map((p, i) => {
+        const next = history.points[i + 1];
+        const nextX = next ? xOf(next.timestamp) : width;
+        return `${i === 0 ? 'M' : 'L'}${xOf(p.timestamp)},${yOf(p.amount)} L${nextX},${yOf(p.amount)}`;
+      }).join(' ')
+    : '';
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-3xl p-8 shadow-sm border border-[#5A5A40]/5 mb-12"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-xl font-serif flex items-center gap-2">
+          <LineChart size={20} className="text-[#5A5A40]" />
+          Lịch sử kho
+        </h2>
+        <div className="flex items-center gap-2">
+          <input
+            value={productId}
+            onChange={(e) => setProductId(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && fetchHistory()}
+            placeholder="Product ID"
+            className="w-28 px-3 py-2 bg-[#f5f5f0] rounded-xl text-xs font-mono outline-none"
+          />
+          {(['24h', '7d'] as const).map(r => (
+            <button
+              key={r}
+              onClick={() => { setRange(r); fetchHistory(r); }}
+              className={`px-3 py-2 rounded-xl text-xs font-medium transition-colors ${range === r ? 'bg-[#5A5A40] text-white' : 'bg-[#f5f5f0] text-[#5A5A40]'}`}
+            >
+              {r}
+            </button>
+          ))}
+          <button 
+            onClick={() => fetchHistory()}
+            disabled={loading || !productId.trim()}
+            className="px-4 py-2 bg-[#5A5A40] text-white rounded-xl text-xs font-medium hover:bg-[#4a4a35] transition-colors disabled:opacity-50"
+          >
+            {loading ? 'Đang tải...' : 'Xem'}
+          </button>
+        </div>
+      </div>
+
+      {history && history.points.length > 0 ? (
+        <>
+          <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-44 bg-[#f5f5f0] rounded-2xl" preserveAspectRatio="none">
+            <path d={path} fill="none" stroke="#5A5A40" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          </svg>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-4 text-xs">
+            <p><span className="text-[#5A5A40]/50">Thấp nhất:</span> {history.stats.minAmount}</p>
+            <p><span className="text-[#5A5A40]/50">Cao nhất:</span> {history.stats.maxAmount}</p>
+            <p><span className="text-[#5A5A40]/50">Nhập hàng:</span> {history.stats.restocks} lần</p>
+            <p><span className="text-[#5A5A40]/50">Giá:</span> {history.stats.maxPrice > 0 ? `${history.stats.minPrice.toLocaleString('vi-VN')}đ - ${history.stats.maxPrice.toLocaleString('vi-VN')}đ` : 'N/A'}</p>
+          </div>
+        </>
+      ) : (
+        <p className="py-8 text-center text-sm text-[#5A5A40]/30 italic">
+          {history ? 'Chưa có dữ liệu lịch sử cho sản phẩm này.' : 'Nhập Product ID để xem biến động kho.'}
+        </p>
+      )}
+    </motion.div>
+  );
+}
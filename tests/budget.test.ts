@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { budgetAllowance, getPeriodStart, type BudgetPeriod, type BudgetStatus } from "../lib/budget.ts";
+
+const vn = (local: string) => Date.parse(`${local}+07:00`);
+
+function status(period: BudgetPeriod, limit: number, spent: number): BudgetStatus {
+  return { period, since: "", limit, spent, remaining: Math.max(0, limit - spent) };
+}
+
+test("getPeriodStart returns the Vietnam day, ISO week and month start in UTC", () => {
+  // Sunday 2026-10-18 10:00 in Vietnam
+  const now = vn("2026-10-18T10:00:00");
+  assert.equal(getPeriodStart("daily", now), "2026-10-17 17:00:00");
+  assert.equal(getPeriodStart("weekly", now), "2026-10-11 17:00:00");
+  assert.equal(getPeriodStart("monthly", now), "2026-09-30 17:00:00");
+});
+
+test("getPeriodStart follows the Vietnam date when UTC is still on the previous day", () => {
+  // Monday 2026-10-19 03:00 in Vietnam is Sunday 20:00 UTC
+  const now = vn("2026-10-19T03:00:00");
+  assert.equal(getPeriodStart("daily", now), "2026-10-18 17:00:00");
+  assert.equal(getPeriodStart("weekly", now), "2026-10-18 17:00:00");
+});
+
+test("budgetAllowance allows the full quantity without limits", () => {
+  const result = budgetAllowance([status("daily", 0, 0), status("weekly", 0, 0), status("monthly", 0, 0)], 0, 5, 10000);
+  assert.deepEqual(result, { allowed: 5, blockedBy: null, unknownPrice: false });
+});
+
+test("budgetAllowance caps the quantity at the tightest budget", () => {
+  const daily = status("daily", 100000, 40000);
+  const weekly = status("weekly", 300000, 265000);
+  const result = budgetAllowance([daily, weekly, status("monthly", 0, 0)], 0, 10, 10000);
+  assert.equal(result.allowed, 3);
+  assert.equal(result.blockedBy, weekly);
+});
+
+test("budgetAllowance subtracts the spend reserved by in-flight auto-buys", () => {
+  const daily = status("daily", 100000, 40000);
+  assert.equal(budgetAllowance([daily], 25000, 10, 10000).allowed, 3);
+  assert.equal(budgetAllowance([daily], 80000, 10, 10000).allowed, 0);
+});
+
+test("budgetAllowance blocks an unknown price only when a budget is set", () => {
+  assert.deepEqual(budgetAllowance([status("daily", 0, 0)], 0, 4, 0), { allowed: 4, blockedBy: null, unknownPrice: true });
+  const monthly = status("monthly", 500000, 0);
+  assert.deepEqual(budgetAllowance([status("daily", 0, 0), monthly], 0, 4, NaN), { allowed: 0, blockedBy: monthly, unknownPrice: true });
+});
@@ -0,0 +1,89 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseCronField, nextCronRun, parseScheduleArgs, scheduleEndAt } from "../lib/cron.ts";
+
+// Wall-clock time in Vietnam, where every schedule is evaluated
+const vn = (local: string) => Date.parse(`${local}+07:00`);
+
+test("parseCronField expands wildcards, ranges, lists and steps", () => {
+  assert.deepEqual([...parseCronField("*/15", 0, 59)!], [0, 15, 30, 45]);
+  assert.deepEqual([...parseCronField("1-5", 0, 7)!], [1, 2, 3, 4, 5]);
+  assert.deepEqual([...parseCronField("1,3,5", 0, 7)!], [1, 3, 5]);
+  assert.deepEqual([...parseCronField("5/20", 0, 59)!], [5, 25, 45]);
+  assert.deepEqual([...parseCronField("8-18/5", 0, 23)!], [8, 13, 18]);
+});
+
+test("parseCronField rejects values outside the field and malformed parts", () => {
+  assert.equal(parseCronField("60", 0, 59), null);
+  assert.equal(parseCronField("0", 1, 31), null);
+  assert.equal(parseCronField("5-1", 0, 59), null);
+  assert.equal(parseCronField("*/0", 0, 59), null);
+  assert.equal(parseCronField("mon", 0, 7), null);
+  assert.equal(parseCronField("1,,2", 0, 7), null);
+});
+
+test("nextCronRun returns the next matching minute in Vietnam time, strictly after the given time", () => {
+  assert.equal(nextCronRun("30 15 * * *", vn("2026-10-19T15:00:00")), vn("2026-10-19T15:30:00"));
+  assert.equal(nextCronRun("30 15 * * *", vn("2026-10-19T15:30:00")), vn("2026-10-20T15:30:00"));
+  assert.equal(nextCronRun("0 0 1 * *", vn("2026-10-19T12:00:00")), vn("2026-11-01T00:00:00"));
+});
+
+test("nextCronRun treats weekday 0 and 7 as Sunday", () => {
+  // 2026-10-19 is a Monday
+  assert.equal(nextCronRun("0 9 * * 7", vn("2026-10-19T10:00:00")), vn("2026-10-25T09:00:00"));
+  assert.equal(nextCronRun("0 9 * * 0", vn("2026-10-19T10:00:00")), vn("2026-10-25T09:00:00"));
+});
+
+test("nextCronRun matches either day field when both are restricted, like cron", () => {
+  // The 20th is a Tuesday, so the Friday weekday never gets a look in
+  assert.equal(nextCronRun("0 8 20 * 5", vn("2026-10-19T10:00:00")), vn("2026-10-20T08:00:00"));
+});
+
+test("nextCronRun returns null for invalid or never-matching expressions", () => {
+  assert.equal(nextCronRun("every day"), null);
+  assert.equal(nextCronRun("0 8 31 2 *"), null);
+});
+
+test("parseScheduleArgs turns HH:mm into a one-shot daily cron", () => {
+  const now = vn("2026-10-19T10:00:00");
+  const { spec } = parseScheduleArgs("8:05", ["2", "10"], now);
+  assert.equal(spec?.cronExpr, "5 8 * * *");
+  assert.equal(spec?.recurring, false);
+  assert.equal(spec?.amount, 2);
+  assert.equal(spec?.limit, 10);
+  assert.equal(spec?.nextRun, vn("2026-10-20T08:05:00"));
+});
+
+test("parseScheduleArgs maps days= ISO weekdays (1=T2 ... 7=CN) onto the cron weekday field", () => {
+  // Saturday morning: days=1-5 waits for Monday, days=7 fires on Sunday
+  const saturday = vn("2026-10-17T09:00:00");
+  const weekdays = parseScheduleArgs("08:00", ["1", "days=1-5"], saturday).spec!;
+  assert.equal(weekdays.cronExpr, "0 8 * * 1-5");
+  assert.equal(weekdays.recurring, true);
+  assert.equal(weekdays.nextRun, vn("2026-10-19T08:00:00"));
+
+  const sunday = parseScheduleArgs("08:00", ["1", "days=7"], saturday).spec!;
+  assert.equal(sunday.nextRun, vn("2026-10-18T08:00:00"));
+});
+
+test("parseScheduleArgs only accepts days= together with an HH:mm time", () => {
+  const { error } = parseScheduleArgs("0 8 * * *", ["1", "days=1-5"]);
+  assert.match(error!, /days=1-5/);
+});
+
+test("parseScheduleArgs keeps until= as a normalised end time", () => {
+  const { spec } = parseScheduleArgs("15:30", ["1", "until=9:05"]);
+  assert.equal(spec?.endTime, "09:05");
+  assert.match(parseScheduleArgs("15:30", ["1", "until=24:00"]).error!, /until=24:00/);
+});
+
+test("parseScheduleArgs rejects times that are neither HH:mm nor cron", () => {
+  assert.ok(parseScheduleArgs("25:00", []).error);
+  assert.ok(parseScheduleArgs("soon", []).error);
+});
+
+test("scheduleEndAt closes the until= window at the first end time after the run started", () => {
+  assert.equal(scheduleEndAt("16:00", vn("2026-10-19T15:30:00")), vn("2026-10-19T16:00:00"));
+  // A window that crosses midnight ends the next day
+  assert.equal(scheduleEndAt("01:00", vn("2026-10-19T23:00:00")), vn("2026-10-20T01:00:00"));
+});
@@ -0,0 +1,100 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { classifyPurchaseFailure, runPurchase, PURCHASE_MAX_ATTEMPTS, type PurchaseResponse } from "../lib/purchase.ts";
+
+test("classifyPurchaseFailure recognises balance, stock and quantity messages", () => {
+  assert.deepEqual(classifyPurchaseFailure("Số dư không đủ để thanh toán"), { reason: "balance", message: "Số dư không đủ" });
+  assert.deepEqual(classifyPurchaseFailure("Số lượng trong kho không đủ (còn 7)"), {
+    reason: "stock", message: "Số lượng trong kho không đủ (còn 7)", remaining: 7
+  });
+  assert.deepEqual(classifyPurchaseFailure("Còn lại: 0"), { reason: "stock", message: "Còn lại: 0", remaining: 0 });
+  assert.equal(classifyPurchaseFailure("Sản phẩm đã hết hàng").reason, "stock");
+  assert.equal(classifyPurchaseFailure("Out of stock").reason, "stock");
+  assert.deepEqual(classifyPurchaseFailure("Vượt quá số lượng tối đa mỗi đơn"), { reason: "quantity", message: "Vượt quá số lượng tối đa mỗi đơn" });
+  assert.deepEqual(classifyPurchaseFailure("Sản phẩm không tồn tại"), { reason: "other", message: "Sản phẩm không tồn tại" });
+});
+
+// A shop with `stock` items that answers every purchase the way respond() decides; records every attempt
+function fakeShop(respond: (quantity: number) => PurchaseResponse | Error) {
+  const calls: number[] = [];
+  const orders: { quantity: number; status: string }[] = [];
+  const steps = {
+    retryDelayMs: 0,
+    async purchase(quantity: number) {
+      calls.push(quantity);
+      const response = respond(quantity);
+      if (response instanceof Error) throw response;
+      return response;
+    },
+    record(quantity: number, result: { response: PurchaseResponse } | { error: string }) {
+      orders.push({ quantity, status: "response" in result ? result.response.status || "" : "error" });
+      return orders.length;
+    },
+    accounts: (response: PurchaseResponse) => `accounts x${(response as any).quantity}`
+  };
+  return { calls, orders, steps };
+}
+
+test("runPurchase buys the whole request in one call when the shop accepts it", async () => {
+  const shop = fakeShop(quantity => ({ status: "success", quantity } as PurchaseResponse));
+  const outcome = await runPurchase(3, shop.steps);
+  assert.equal(outcome.bought, 3);
+  assert.equal(outcome.attempts, 1);
+  assert.deepEqual(outcome.orderIds, [1]);
+  assert.deepEqual(outcome.accounts, ["accounts x3"]);
+  assert.equal(outcome.failure, undefined);
+});
+
+test("runPurchase steps down to the stock the shop reports", async () => {
+  let stock = 7;
+  const shop = fakeShop(quantity => {
+    if (quantity > stock) return { status: "error", message: `Số lượng trong kho không đủ (còn ${stock})` };
+    stock -= quantity;
+    return { status: "success", quantity } as PurchaseResponse;
+  });
+  const outcome = await runPurchase(10, shop.steps);
+  assert.deepEqual(shop.calls, [10, 7, 3]);
+  assert.equal(outcome.bought, 7);
+  assert.equal(outcome.failure?.reason, "stock");
+  assert.equal(outcome.failure?.remaining, 0);
+  assert.deepEqual(shop.orders.map(order => order.status), ["error", "success", "error"]);
+});
+
+test("runPurchase halves the quantity when the shop gives no stock figure, then keeps taking the rest", async () => {
+  const shop = fakeShop(quantity => quantity > 2
+    ? { status: "error", message: "Vượt quá số lượng tối đa" }
+    : { status: "success", quantity } as PurchaseResponse);
+  const outcome = await runPurchase(5, shop.steps);
+  assert.deepEqual(shop.calls, [5, 2, 2, 1]);
+  assert.equal(outcome.bought, 5);
+  assert.equal(outcome.failure, undefined);
+  assert.deepEqual(outcome.orderIds, [2, 3, 4]);
+});
+
+test("runPurchase gives up after PURCHASE_MAX_ATTEMPTS calls", async () => {
+  const shop = fakeShop(() => ({ status: "error", message: "Vượt quá số lượng tối đa" }));
+  const outcome = await runPurchase(100, shop.steps);
+  assert.equal(outcome.attempts, PURCHASE_MAX_ATTEMPTS);
+  assert.deepEqual(shop.calls, [100, 50, 25, 12, 6, 3]);
+  assert.equal(outcome.bought, 0);
+  assert.equal(outcome.failure?.reason, "quantity");
+});
+
+test("runPurchase stops at once on a balance or unknown failure", async () => {
+  const broke = fakeShop(() => ({ status: "error", message: "Số dư không đủ" }));
+  const outcome = await runPurchase(4, broke.steps);
+  assert.deepEqual(broke.calls, [4]);
+  assert.equal(outcome.failure?.reason, "balance");
+
+  const other = fakeShop(() => ({ status: "error", message: "Sản phẩm không tồn tại" }));
+  assert.equal((await runPurchase(4, other.steps)).attempts, 1);
+});
+
+test("runPurchase never retries a request that threw, since the shop may already have charged", async () => {
+  const shop = fakeShop(() => Object.assign(new Error("socket hang up"), { response: { data: { message: "timeout" } } }));
+  const outcome = await runPurchase(2, shop.steps);
+  assert.deepEqual(shop.calls, [2]);
+  assert.deepEqual(shop.orders, [{ quantity: 2, status: "error" }]);
+  assert.equal(outcome.failure?.reason, "error");
+  assert.equal(outcome.failure?.message, JSON.stringify({ message: "timeout" }));
+});
@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeSearchText, editDistance, matchToken, searchCatalog } from "../lib/search.ts";
+
+const catalog = [
+  {
+    id: 1,
+    name: "Tài khoản Gmail",
+    accounts: [
+      { id: 11, name: "Gmail cổ", price: "5000", amount: "0" },
+      { id: 12, name: "Gmail mới", price: "3000", amount: "20" },
+      { id: 13, name: "Gmail", price: "4000", amount: "0" }
+    ]
+  },
+  {
+    id: 2,
+    name: "Mạng xã hội",
+    accounts: [
+      { id: 21, name: "Facebook đẹp", price: "15000", amount: "4" },
+      { id: 22, name: "Facebook thường", price: "8000", amount: "0" }
+    ]
+  }
+];
+
+test("normalizeSearchText strips accents, đ and punctuation", () => {
+  assert.equal(normalizeSearchText("Tài Khoản Đẹp!"), "tai khoan dep");
+  assert.equal(normalizeSearchText("  Gmail--cổ  "), "gmail co");
+  assert.equal(normalizeSearchText(undefined), "");
+});
+
+test("editDistance counts edits and stops once past the maximum", () => {
+  assert.equal(editDistance("gmail", "gmail", 1), 0);
+  assert.equal(editDistance("gnail", "gmail", 1), 1);
+  assert.equal(editDistance("gmal", "gmail", 1), 1);
+  assert.equal(editDistance("hotmail", "gmail", 1), 2);
+  assert.equal(editDistance("facebook", "gmail", 2), 3);
+});
+
+test("matchToken ranks whole words over prefixes over typos and substrings", () => {
+  const words = ["facebook", "dep"];
+  assert.equal(matchToken("dep", words), 3);
+  assert.equal(matchToken("face", words), 2);
+  assert.equal(matchToken("book", words), 1);
+  assert.equal(matchToken("facebok", words), 1);
+  // Typos are only tolerated from four letters on
+  assert.equal(matchToken("dap", words), 0);
+});
+
+test("searchCatalog matches without accents and across name and category", () => {
+  assert.deepEqual(searchCatalog(catalog, "facebook dep").map(r => r.id), ["21"]);
+  assert.deepEqual(searchCatalog(catalog, "mang xa hoi").map(r => r.id).sort(), ["21", "22"]);
+  assert.deepEqual(searchCatalog(catalog, "tai khoan co").map(r => r.id), ["11"]);
+});
+
+test("searchCatalog tolerates a one-letter typo", () => {
+  assert.deepEqual(searchCatalog(catalog, "gnail").map(r => r.id).sort(), ["11", "12", "13"]);
+});
+
+test("searchCatalog puts the exact name first, then in-stock products", () => {
+  const results = searchCatalog(catalog, "gmail");
+  assert.equal(results[0].id, "13");
+  assert.deepEqual(results.slice(1).map(r => r.id), ["12", "11"]);
+  assert.deepEqual(searchCatalog(catalog, "facebook").map(r => r.id), ["21", "22"]);
+});
+
+test("searchCatalog finds a product by ID and returns nothing for unrelated queries", () => {
+  const [result] = searchCatalog(catalog, "22");
+  assert.equal(result.id, "22");
+  assert.equal(result.category, "Mạng xã hội");
+  assert.equal(result.categoryIndex, 1);
+  assert.equal(result.amount, 0);
+  assert.deepEqual(searchCatalog(catalog, "netflix"), []);
+  assert.deepEqual(searchCatalog(catalog, "  !! "), []);
+});